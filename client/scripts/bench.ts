@@ -0,0 +1,72 @@
+// scripts/bench.ts
+// `npm run bench [-- <name>... --<option>=<number>...]`
+//
+// Runs the pathfinding benchmarks and self-checks in Node, one table each.
+// No names = all of them; numeric options go to every benchmark that runs
+// (e.g. `npm run bench -- hierarchical --size=120 --towers=3000`).
+// Exits non-zero when a benchmark's own correctness check fails.
+
+import { benchmarkAdjacency } from "../src/app/world/pathfinding/adjacencyBenchmark";
+import { benchmarkHierarchical } from "../src/app/world/pathfinding/hierarchicalBenchmark";
+import { checkTurnPlanner } from "../src/app/world/pathfinding/turnPlannerCheck";
+import { checkPathCache } from "../src/state/pathCacheCheck";
+
+type Options = Record<string, number>;
+type Result = Record<string, number | boolean | string>;
+
+type Benchmark = Readonly<{
+  run: (options: Options) => Result;
+  ok: (result: Result) => boolean;
+}>;
+
+const BENCHMARKS: Record<string, Benchmark> = {
+  adjacency: {
+    run: (o) => benchmarkAdjacency(o),
+    ok: (r) => r.identical === true,
+  },
+  hierarchical: {
+    run: (o) => benchmarkHierarchical(o),
+    ok: (r) => r.reachabilityMismatches === 0 && r.withinTolerance === true && r.patchedMatchesRebuild === true,
+  },
+  turns: {
+    run: (o) => checkTurnPlanner(o),
+    ok: (r) => r.costMismatches === 0 && r.turnMismatches === 0 && r.reachabilityMismatches === 0,
+  },
+  cache: {
+    run: () => checkPathCache(), // fixed scenario, no options
+    ok: (r) => r.failed === 0,
+  },
+};
+
+const names: string[] = [];
+const options: Options = {};
+for (const arg of process.argv.slice(2)) {
+  const m = /^--(\w+)=(.+)$/.exec(arg);
+  if (!m) {
+    names.push(arg);
+    continue;
+  }
+  const value = Number(m[2]);
+  if (!Number.isFinite(value)) {
+    console.error(`--${m[1]} must be a number, got "${m[2]}"`);
+    process.exit(2);
+  }
+  options[m[1]] = value;
+}
+
+const unknown = names.filter((n) => !(n in BENCHMARKS));
+if (unknown.length > 0) {
+  console.error(`unknown benchmark: ${unknown.join(", ")} (have: ${Object.keys(BENCHMARKS).join(", ")})`);
+  process.exit(2);
+}
+
+let failed = false;
+for (const name of names.length > 0 ? names : Object.keys(BENCHMARKS)) {
+  const bench = BENCHMARKS[name];
+  const result = bench.run(options);
+  const ok = bench.ok(result);
+  failed ||= !ok;
+  console.log(`\n${name}${ok ? "" : "  ✗ check failed"}`);
+  console.table(result);
+}
+process.exit(failed ? 1 : 0);
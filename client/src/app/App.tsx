@@ -1,23 +1,64 @@
 // src/App.tsx
-import { useMemo, useState, useCallback, useEffect, useRef } from "react";
-import type { Tile, TileId } from "./world/grid/gridTypes";
+import { useMemo, useState, useCallback, useEffect, useSyncExternalStore } from "react";
+import type { GridConfig, Tile, Tower } from "./world/grid/gridTypes";
 import { DEFAULT_GRID, toTileId } from "./world/grid/gridTypes";
-import { generateTowerTiles, buildTowerSet } from "./world/towers/towerLocations";
-import { buildBaseEdges } from "./world/pathfinding/neighbors";
-import { buildPrunedAdjacency } from "./world/grid/gridRules";
-import { bfsPath } from "./world/pathfinding/bfs";
+import { buildCostFn } from "./world/grid/gridMath";
+import type { Mode } from "./world/grid/gridRules";
+import { generateTowerTiles } from "./world/towers/towerLocations";
+import { DEFAULT_LAYOUT_GENERATOR, generateLayout } from "./world/towers/layoutGenerators";
+import type { GridSize, ResizePolicy } from "./world/grid/resizeGrid";
+import { clearFloorMask, paintTileCost, paintTileMask, toggleWall } from "./world/grid/floorMask";
+import { resizeWorld } from "./world/grid/resizeGrid";
+import type { PathAlgorithm } from "./world/pathfinding/findPath";
+import { getPlannerEntry } from "./world/pathfinding/findPath";
+import type { PlanResult } from "./world/pathfinding/planner";
+import { countTurns, pathCost } from "./world/pathfinding/planner";
+import type { SearchTrace } from "./world/pathfinding/searchTrace";
+import { traceFrameAt } from "./world/pathfinding/searchTrace";
+import type { Edge } from "./world/pathfinding/neighbors";
+import type { WorldStore, WorldStoreInit } from "../state/worldStore";
+import { createReplayStore, createWorldStore } from "../state/worldStore";
+import {
+  captureSnapshot,
+  parseWorldSnapshot,
+  serializeWorldSnapshot,
+  snapshotToInit,
+} from "../state/worldSnapshot";
+import type { ShareLink } from "../state/shareLink";
+import {
+  captureShareLink,
+  decodeShareHash,
+  encodeShareHash,
+  shareLinkToInit,
+} from "../state/shareLink";
 
 import SimViewCanvas from "./scenes/SimViewCanvas";
 import WorldViewCanvas from "./scenes/WorldViewCanvas";
 import HudPanel from "./ui/HudPanel";
 import AboutModal from "./ui/AboutModal";
 import ControlPanel from "./ui/ControlPanel";
-import type { ActiveView, SimCamMode, WorldCamMode } from "./ui/ControlPanel";
+import type { ActiveView, LayoutSettings, SimCamMode, WorldCamMode } from "./ui/ControlPanel";
 import OrbitHint from "./ui/OrbitHint";
-
-import type { Command, HoverIntent } from "./world/sim/commands";
+import ClockPanel from "./ui/ClockPanel";
+import EventLog from "./ui/EventLog";
+import ReplayPanel from "./ui/ReplayPanel";
+import WorldFilePanel from "./ui/WorldFilePanel";
+import GridSettingsPanel from "./ui/GridSettingsPanel";
+import FloorMaskPanel from "./ui/FloorMaskPanel";
+import PlannerComparePanel from "./ui/PlannerComparePanel";
+import ExplainPanel from "./ui/ExplainPanel";
+import DebugPanel from "./ui/DebugPanel";
+import type { FloorTool } from "./ui/FloorMaskPanel";
+import { downloadJson } from "./ui/download";
+
+import type { Command, CommandResult, HoverIntent } from "./world/sim/commands";
 import { CMD } from "./world/sim/commands";
-import { expandSwap } from "./world/sim/expandSwap";
+import { DEFAULT_MOTION } from "./world/sim/dollyMotion";
+import type { ReplayLog } from "./world/sim/replayLog";
+import { createPlanClient } from "./world/sim/planClient";
+import type { Scenario } from "./world/scenarios/scenario";
+import { evaluateGoal, parseScenario, parseScenarioText } from "./world/scenarios/scenario";
+import { SAMPLE_BOARDS } from "./world/scenarios/sampleBoards";
 
 import "./styles/globals.css";
 
@@ -25,17 +66,31 @@ function tileEquals(a: Tile, b: Tile) {
   return a.x === b.x && a.z === b.z;
 }
 
+const EVENT_LOG_LIMIT = 100;
+
+// Shared-link layout in the current URL hash (if any)
+function readShareHash(): { link: ShareLink | null; error: string | null } {
+  try {
+    return { link: decodeShareHash(window.location.hash), error: null };
+  } catch (err) {
+    return { link: null, error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
 function App() {
-  const grid = DEFAULT_GRID;
-  const speed = 2;
+  const motion = DEFAULT_MOTION;
+
+  // decoded once; seeds the kernel + camera state below
+  const [initialLink] = useState(readShareHash);
+  const linkView = initialLink.link?.view;
 
   // which canvas is primary
-  const [activeView, setActiveView] = useState<ActiveView>("SIM");
+  const [activeView, setActiveView] = useState<ActiveView>(linkView?.activeView ?? "SIM");
 
   // camera mode state
-  const [simCamMode, setSimCamMode] = useState<SimCamMode>("CHASE");
+  const [simCamMode, setSimCamMode] = useState<SimCamMode>(linkView?.simCamMode ?? "CHASE");
   const [worldCamMode, setWorldCamMode] =
-    useState<WorldCamMode>("CENTER_OVERVIEW");
+    useState<WorldCamMode>(linkView?.worldCamMode ?? "CENTER_OVERVIEW");
 
   // for start/destination camera end of sequence targetting
   const [simCamReseed, setSimCamReseed] = useState(0);
@@ -47,19 +102,47 @@ function App() {
     });
   }, []);
 
-  const [dollyTile, setDollyTile] = useState<Tile>({ x: 7, z: 5 });
-  const [path, setPath] = useState<Tile[]>([]);
+  // Plan worker shared by every live kernel (each gets its own port)
+  const [planClient] = useState(createPlanClient);
+
+  // World kernel (authoritative); React only subscribes + renders
+  const [liveStore, setLiveStore] = useState(() => {
+    const init: WorldStoreInit = initialLink.link
+      ? shareLinkToInit(initialLink.link, motion)
+      : {
+          grid: DEFAULT_GRID,
+          towers: generateTowerTiles(DEFAULT_GRID),
+          dollyTile: { x: 7, z: 5 },
+          motion,
+        };
+    return createWorldStore({ ...init, planPort: planClient.open(init.grid) });
+  });
+
+  // ✅ a swapped-out kernel drops its in-flight plan and worker-side graphs
+  useEffect(() => () => liveStore.dispose(), [liveStore]);
+
+  // While a log is replaying, its kernel replaces the live one (which stays frozen)
+  const [replay, setReplay] = useState<{ log: ReplayLog; store: WorldStore } | null>(null);
+  const store = replay?.store ?? liveStore;
+  const replaying = replay !== null;
+
+  const world = useSyncExternalStore(store.subscribe, store.getState);
+  const grid = world.grid;
+
+  const dollyTile = world.dolly.tile;
+  const path = world.path;
+  const queue = world.queue;
+
+  // carrying is the carried tower's ORIGINAL tile (source-of-truth for mode)
+  const carrying = world.carrying?.tile ?? null;
+
   const [hoveredTile, setHoveredTile] = useState<Tile | null>(null);
   const [hoveredTowerTile, setHoveredTowerTile] = useState<Tile | null>(null);
-  const [showGrid, setShowGrid] = useState(true);
+  const [showGrid, setShowGrid] = useState(linkView?.showGrid ?? true);
 
   // Queue history for HUD chips
   const [queueHistory, setQueueHistory] = useState<string[]>(["IDLE"]);
 
-  const resetQueueHistoryForNewRun = useCallback(() => {
-    setQueueHistory(["IDLE"]);
-  }, []);
-
   const pushChip = useCallback((label: string) => {
     setQueueHistory((prev) => {
       const base = prev.length === 1 && prev[0] === "IDLE" ? [] : prev;
@@ -75,309 +158,584 @@ function App() {
     });
   }, []);
 
-  // carrying is the carried tower's ORIGINAL tile (source-of-truth for mode)
-  const [carrying, setCarrying] = useState<Tile | null>(null);
-
-  // towers is authoritative placed tower list (UI mirror of towersRef)
-  const [towers, setTowers] = useState<Tile[]>(() => generateTowerTiles(grid));
+  // Command outcomes (newest first) for HUD + event log
+  const [eventLog, setEventLog] = useState<CommandResult[]>([]);
 
-  // queue state is only for rendering / disabling inputs
-  const [queue, setQueue] = useState<Command[]>([]);
+  // Runner events -> chips
+  useEffect(() => {
+    return store.onEvent((e) => {
+      switch (e.type) {
+        case "RUN_STARTED":
+          setQueueHistory(["IDLE"]);
+          return;
+        case "MOVE_STARTED":
+          pushChip("MOVE");
+          return;
+        case "LIFTED":
+          pushChip("LIFT");
+          return;
+        case "DROPPED":
+          pushChip("DROP");
+          return;
+        case "MACRO_STARTED":
+          pushChip(e.kind);
+          return;
+        case "HISTORY_APPLIED":
+          // planned undo/redo already got a chip when its macro started
+          if (e.mode === "INSTANT") pushChip(e.kind);
+          return;
+        case "DONE":
+          pushDoneChipIfMissing();
+          return;
+        case "COMMAND_RESULT": {
+          const r = e.result;
+          setEventLog((prev) => [r, ...prev].slice(0, EVENT_LOG_LIMIT));
+          if (r.code !== "OK") {
+            pushChip(`✕ ${r.command.type === "MOVE_TO" ? "MOVE" : r.command.type}`);
+          }
+          return;
+        }
+      }
+    });
+  }, [store, pushChip, pushDoneChipIfMissing]);
 
   // about modal
   const [aboutOpen, setAboutOpen] = useState(false);
 
   const isMoving = path.length >= 2;
-  const actionsDisabled = isMoving || queue.length > 0;
+  // an executing macro counts as pending work (its steps are not in the queue)
+  const pendingLen = queue.length + (world.macro ? 1 : 0);
+  const actionsDisabled = replaying || isMoving || pendingLen > 0;
+
+  // UI previews
+  const placedTowers = useMemo(() => world.towers.map((t) => t.tile), [world.towers]);
+
+  const uiMode: Mode = world.carrying ? "TRANSPORT" : "NORMAL";
+  const costOf = useMemo(() => buildCostFn(grid), [grid]);
+
+  // Previews ask the plan worker on a port of their own (so they never supersede the
+  // runner's plan). A newer query cancels the one in flight, and the last answer
+  // stays on screen until its replacement lands.
+  const previewPort = useMemo(() => planClient.open(grid), [planClient, grid]);
+  useEffect(() => () => previewPort.close(), [previewPort]);
+  const towerIds = useMemo(() => placedTowers.map(toTileId), [placedTowers]);
+
+  // Planner comparison (view only, never recorded): a second planner on the hovered query
+  const [compareChoice, setCompareChoice] = useState<PathAlgorithm | null>(null);
+  const compareAlgorithm = compareChoice === world.pathAlgorithm ? null : compareChoice;
+
+  type HoverPreview = Readonly<{
+    algorithm: PathAlgorithm;
+    plan: PlanResult;
+    baseline: number; // expansions of the same query under BFS
+    compare: Readonly<{ algorithm: PathAlgorithm; plan: PlanResult }> | null;
+  }>;
+  const [hoverPreview, setHoverPreview] = useState<HoverPreview | null>(null);
+
+  const hoverQuery =
+    isMoving || !hoveredTile || tileEquals(hoveredTile, dollyTile) ? null : hoveredTile;
 
-  // baseEdges are stable
-  const baseEdges = useMemo(() => buildBaseEdges(grid), [grid]);
-  const baseEdgesRef = useRef(baseEdges);
   useEffect(() => {
-    baseEdgesRef.current = baseEdges;
-  }, [baseEdges]);
-
-  // UI previews only (runner uses refs)
-  const mode = carrying ? "TRANSPORT" : "NORMAL";
-
-  const placedTowers = useMemo(() => {
-    if (!carrying) return towers;
-    return towers.filter((t) => !tileEquals(t, carrying));
-  }, [towers, carrying]);
+    if (!hoverQuery) return;
+    let stale = false;
+
+    // never starts a job once superseded: that would cancel the newer query's
+    const ask = async (algorithm: PathAlgorithm) => {
+      if (stale) return null;
+      const job = { kind: "PATH", mode: uiMode, algorithm, from: dollyTile, to: hoverQuery } as const;
+      const outcome = await previewPort.run(job, towerIds);
+      return !stale && outcome?.kind === "PATH" ? outcome.result : null;
+    };
 
-  const towerSet = useMemo(() => buildTowerSet(placedTowers), [placedTowers]);
+    const algorithm = world.pathAlgorithm;
+    const run = async () => {
+      const plan = await ask(algorithm);
+      if (!plan) return;
+      const baseline = algorithm === "BFS" ? plan : await ask("BFS");
+      if (!baseline) return;
+      const compare = compareAlgorithm ? await ask(compareAlgorithm) : null;
+      if (compareAlgorithm && !compare) return;
+
+      setHoverPreview({
+        algorithm,
+        plan,
+        baseline: baseline.expanded,
+        compare: compareAlgorithm && compare ? { algorithm: compareAlgorithm, plan: compare } : null,
+      });
+    };
+    // a worker crash fails this one preview; the client plans in-thread from the next
+    run().catch(() => {});
 
-  const adjForUI = useMemo(
-    () => buildPrunedAdjacency(mode, grid, baseEdges, towerSet),
-    [mode, grid, baseEdges, towerSet]
+    return () => {
+      stale = true;
+      previewPort.cancel();
+    };
+  }, [previewPort, towerIds, uiMode, dollyTile, hoverQuery, world.pathAlgorithm, compareAlgorithm]);
+
+  const shownPreview = hoverQuery ? hoverPreview : null;
+  const hoverPlan = shownPreview?.plan ?? null;
+  const comparePreview = compareAlgorithm ? (shownPreview?.compare ?? null) : null;
+
+  const hoverPath = useMemo(() => hoverPlan?.path ?? [], [hoverPlan]);
+
+  // ✅ expansion count of the same query under BFS, for comparison
+  const searchStats = useMemo(() => {
+    if (!shownPreview) return null;
+    return { expanded: shownPreview.plan.expanded, baseline: shownPreview.baseline };
+  }, [shownPreview]);
+
+  const comparePath = useMemo(
+    () =>
+      comparePreview
+        ? { path: comparePreview.plan.path, color: getPlannerEntry(comparePreview.algorithm).color }
+        : null,
+    [comparePreview]
   );
 
-  const hoverPath = useMemo(() => {
-    if (isMoving) return [];
-    if (!hoveredTile) return [];
-    if (tileEquals(hoveredTile, dollyTile)) return [];
-    return bfsPath(adjForUI, dollyTile, hoveredTile);
-  }, [adjForUI, dollyTile, hoveredTile, isMoving]);
-
-  // --------------------------
-  // Refs for runner (authoritative)
-  // --------------------------
-  const queueRef = useRef<Command[]>([]);
-  const dollyTileRef = useRef<Tile>(dollyTile);
-  const towersRef = useRef<Tile[]>(towers);
-  const carryingRef = useRef<Tile | null>(carrying);
-  const pathRef = useRef<Tile[]>(path);
-
-  // runtime-derived refs
-  const towerSetRef = useRef<ReadonlySet<TileId>>(towerSet);
-  const adjRef = useRef(buildPrunedAdjacency("NORMAL", grid, baseEdges, towerSet));
-  const adjTransportRef = useRef(
-    buildPrunedAdjacency("TRANSPORT", grid, baseEdges, towerSet)
+  // ✅ both lines use registry colours while comparing so they match the table
+  const hoverColor =
+    comparePreview && shownPreview ? getPlannerEntry(shownPreview.algorithm).color : undefined;
+
+  const compareRows = useMemo(() => {
+    if (!shownPreview || !comparePreview) return null;
+    const row = (id: PathAlgorithm, r: PlanResult) => ({
+      id,
+      color: getPlannerEntry(id).color,
+      steps: Math.max(0, r.path.length - 1),
+      turns: countTurns(r.path),
+      cost: r.cost,
+      expanded: r.expanded,
+    });
+    return [
+      row(shownPreview.algorithm, shownPreview.plan),
+      row(comparePreview.algorithm, comparePreview.plan),
+    ];
+  }, [shownPreview, comparePreview]);
+
+  const activePathCost = useMemo(() => pathCost(path, costOf), [path, costOf]);
+
+  const setPathAlgorithm = useCallback(
+    (algorithm: PathAlgorithm) => {
+      if (replaying) return; // the log decides
+      store.setPathAlgorithm(algorithm);
+    },
+    [store, replaying]
   );
 
-  useEffect(() => {
-    dollyTileRef.current = dollyTile;
-  }, [dollyTile]);
-
-  useEffect(() => {
-    towersRef.current = towers;
-  }, [towers]);
-
-  useEffect(() => {
-    carryingRef.current = carrying;
-  }, [carrying]);
+  const enqueue = useCallback(
+    (cmds: Command[]) => {
+      store.dispatch(cmds);
+    },
+    [store]
+  );
 
+  // Wall clock -> sim ticks. The kernel only ever advances in whole ticks.
   useEffect(() => {
-    pathRef.current = path;
-  }, [path]);
+    let raf = 0;
+    let last = performance.now();
 
-  useEffect(() => {
-    towerSetRef.current = towerSet;
-  }, [towerSet]);
+    const loop = (now: number) => {
+      store.timeline.advance((now - last) / 1000);
+      last = now;
+      raf = requestAnimationFrame(loop);
+    };
 
-  // --------------------------
-  // Synchronous adjacency refresh for runner
-  // --------------------------
-  const refreshRuntimeGraphs = useCallback(() => {
-    const placed = towersRef.current; // carried tile removed from towersRef during lift
-    const ts = buildTowerSet(placed);
-    towerSetRef.current = ts;
-
-    const runtimeMode = carryingRef.current ? "TRANSPORT" : "NORMAL";
-    adjRef.current = buildPrunedAdjacency(
-      runtimeMode,
-      grid,
-      baseEdgesRef.current,
-      ts
-    );
-    adjTransportRef.current = buildPrunedAdjacency(
-      "TRANSPORT",
-      grid,
-      baseEdgesRef.current,
-      ts
-    );
-  }, [grid]);
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [store]);
 
   // --------------------------
-  // Runner
+  // Replay
   // --------------------------
-  const runNextRef = useRef<() => void>(() => {});
-
-  // DONE guard (prevents spamming DONE every render)
-  const didPushDoneRef = useRef(false);
-
-  const resetDoneGuard = useCallback(() => {
-    didPushDoneRef.current = false;
-  }, []);
-
-  const setQueueBoth = useCallback((next: Command[]) => {
-    queueRef.current = next;
-    setQueue(next);
+  // chips + event log belong to whichever kernel is shown
+  const resetFeed = useCallback(() => {
+    setQueueHistory(["IDLE"]);
+    setEventLog([]);
   }, []);
 
-  const popHead = useCallback(() => {
-    const next = queueRef.current.slice(1);
-    setQueueBoth(next);
-  }, [setQueueBoth]);
-
-  const replaceQueue = useCallback(
-    (next: Command[]) => {
-      setQueueBoth(next);
+  const loadReplay = useCallback(
+    (log: ReplayLog) => {
+      resetFeed();
+      setReplay({ log, store: createReplayStore(log) });
     },
-    [setQueueBoth]
+    [resetFeed]
   );
 
-  const enqueue = useCallback(
-    (cmds: Command[]) => {
-      if (cmds.length === 0) return;
-
-      // If idle and a new run begins, clear prior chips and re-arm DONE.
-      if (pathRef.current.length < 2 && queueRef.current.length === 0) {
-        resetQueueHistoryForNewRun();
-        resetDoneGuard();
+  const seekReplay = useCallback(
+    (tick: number) => {
+      if (!replay) return;
+      const current = replay.store.timeline.getClock().tick;
+      if (tick >= current) {
+        replay.store.timeline.stepTicks(tick - current);
+        return;
       }
+      // kernel cannot rewind: rebuild and fast-forward
+      resetFeed();
+      setReplay({ log: replay.log, store: createReplayStore(replay.log, tick) });
+    },
+    [replay, resetFeed]
+  );
 
-      const next = [...queueRef.current, ...cmds];
-      setQueueBoth(next);
-      queueMicrotask(() => runNextRef.current());
+  const exitReplay = useCallback(() => {
+    resetFeed();
+    setReplay(null);
+  }, [resetFeed]);
+
+  // Swap in a fresh live kernel (snapshot / scenario load); the planner carries over
+  const startWorld = useCallback(
+    (init: WorldStoreInit) => {
+      resetFeed();
+      setReplay(null);
+      setLiveStore(
+        createWorldStore({
+          pathAlgorithm: store.getState().pathAlgorithm,
+          ...init,
+          planPort: planClient.open(init.grid),
+        })
+      );
+      setHoveredTile(null);
+      setHoveredTowerTile(null);
     },
-    [resetQueueHistoryForNewRun, resetDoneGuard, setQueueBoth]
+    [resetFeed, store, planClient]
   );
 
-  const runNext = useCallback(() => {
-    // do not execute while moving
-    if (pathRef.current.length >= 2) return;
+  // --------------------------
+  // Scenarios (challenge boards)
+  // --------------------------
+  const [scenario, setScenario] = useState<{ id: string | null; scenario: Scenario } | null>(
+    null
+  );
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
 
-    // ensure graphs match current towers/carrying *now*
-    refreshRuntimeGraphs();
+  const startScenario = useCallback(
+    (id: string | null, s: Scenario) => {
+      startWorld({ grid: s.grid, towers: s.towers, dollyTile: s.dollyStart, motion });
+      setScenario({ id, scenario: s });
+      setScenarioError(null);
+    },
+    [startWorld, motion]
+  );
 
-    const q = queueRef.current;
+  const pickScenario = useCallback(
+    (id: string) => {
+      const board = SAMPLE_BOARDS.find((b) => b.id === id);
+      if (!board) return;
+      try {
+        startScenario(id, parseScenario(board.raw));
+      } catch (err) {
+        setScenarioError(err instanceof Error ? err.message : String(err));
+      }
+    },
+    [startScenario]
+  );
 
-    // ✅ DONE condition occurs here (only when idle, because runNext bails while moving)
-    if (q.length === 0) {
-      if (!didPushDoneRef.current) {
-        pushDoneChipIfMissing();
-        didPushDoneRef.current = true;
+  const loadScenarioFile = useCallback(
+    async (file: File) => {
+      try {
+        startScenario(null, parseScenarioText(await file.text()));
+      } catch (err) {
+        setScenarioError(err instanceof Error ? err.message : String(err));
       }
-      return;
-    }
+    },
+    [startScenario]
+  );
 
-    const current = q[0];
-    const kick = () => queueMicrotask(() => runNextRef.current());
+  const goal = scenario?.scenario.goal ?? null;
+  const goalProgress = useMemo(
+    () => (goal ? evaluateGoal(goal, world.towers, world.carrying) : null),
+    [goal, world.towers, world.carrying]
+  );
 
-    const tileHasTower = (tile: Tile, list: readonly Tile[]) =>
-      list.some((t) => tileEquals(t, tile));
+  // --------------------------
+  // Layout generator (seeded)
+  // --------------------------
+  const [layout, setLayout] = useState<LayoutSettings>({
+    generatorId: DEFAULT_LAYOUT_GENERATOR,
+    seed: 1,
+    count: 24,
+  });
+
+  const changeLayout = useCallback((patch: Partial<LayoutSettings>) => {
+    setLayout((prev) => ({ ...prev, ...patch }));
+  }, []);
 
-    const tryRewriteWithMove = (target: Tile, cmd: Command) => {
-      const from = dollyTileRef.current;
-      const nextPath = bfsPath(adjRef.current, from, target);
+  // regenerate towers on the current grid; the dolly stays where it is
+  const generateTowers = useCallback(() => {
+    const { grid: g, dolly } = store.getState();
+    const towers = generateLayout(layout.generatorId, g, {
+      count: layout.count,
+      seed: layout.seed,
+      avoid: [dolly.tile],
+    });
+    startWorld({ grid: g, towers, dollyTile: dolly.tile, motion });
+    setScenario(null);
+  }, [store, layout, startWorld, motion]);
+
+  // Same towers (ids kept) on a changed grid; the board no longer matches any scenario
+  const rebuildOnGrid = useCallback(
+    (g: GridConfig, towers: Tower[], carrying: Tower | null, dollyTile: Tile) => {
+      startWorld({
+        grid: g,
+        towers: towers.map((t) => t.tile),
+        dollyTile,
+        motion,
+        restore: { towers, carrying, queue: [] },
+      });
+      setScenario(null);
+    },
+    [startWorld, motion]
+  );
 
-      // unreachable => drop cmd
-      if (nextPath.length < 2 && !tileEquals(from, target)) {
-        popHead();
-        kick();
-        return;
-      }
+  // --------------------------
+  // Grid resize (towers outside the new bounds are relocated or culled)
+  // --------------------------
+  const applyGridSize = useCallback(
+    (size: GridSize, policy: ResizePolicy) => {
+      if (actionsDisabled) return { relocated: 0, culled: 0 };
+      const s = store.getState();
+      const r = resizeWorld(
+        { grid: s.grid, towers: s.towers, carrying: s.carrying, dollyTile: s.dolly.tile },
+        size,
+        policy
+      );
+      rebuildOnGrid(r.grid, r.towers, r.carrying, r.dollyTile);
+      return { relocated: r.relocated.length, culled: r.culled.length };
+    },
+    [actionsDisabled, store, rebuildOnGrid]
+  );
 
-      replaceQueue([CMD.moveTo(target), cmd, ...q.slice(1)]);
-      kick();
-    };
+  // --------------------------
+  // Floor mask painting (blocked / void tiles, walls on grid lines)
+  // --------------------------
+  const [maskTool, setMaskTool] = useState<FloorTool | null>(null);
 
-    if (current.type === "MOVE_TO") {
-      const from = dollyTileRef.current;
-      const to = current.to;
+  // --------------------------
+  // Explain path (search step-through)
+  // --------------------------
+  const [explainArmed, setExplainArmed] = useState(false);
+  const [explain, setExplain] = useState<{ trace: SearchTrace; label: string } | null>(null);
+  const [explainFrame, setExplainFrame] = useState(0);
 
-      if (tileEquals(from, to)) {
-        popHead();
-        kick();
-        return;
-      }
+  const armExplain = useCallback((armed: boolean) => {
+    setExplainArmed(armed);
+    if (armed) setMaskTool(null);
+  }, []);
 
-      const nextPath = bfsPath(adjRef.current, from, to);
-      if (nextPath.length < 2) {
-        popHead();
-        kick();
-        return;
-      }
+  // traced on the worker (own port: hovering on must not supersede it) against the
+  // towers at click time; a snapshot, not kept in sync with later edits
+  const explainPort = useMemo(() => planClient.open(grid), [planClient, grid]);
+  useEffect(() => () => explainPort.close(), [explainPort]);
 
-      popHead();
+  const explainTile = useCallback(
+    (tile: Tile) => {
+      const algorithm = store.getState().pathAlgorithm;
+      setExplainArmed(false);
+      explainPort
+        .run({ kind: "TRACE", mode: uiMode, algorithm, from: dollyTile, to: tile }, towerIds)
+        .then(
+          (outcome) => {
+            if (outcome?.kind !== "TRACE") return; // superseded by a newer click
+            const label = getPlannerEntry(algorithm).label.split(" (")[0];
+            setExplain({ trace: outcome.trace, label });
+            setExplainFrame(0);
+          },
+          () => {} // worker crashed: nothing to show; the next click plans in-thread
+        );
+    },
+    [store, explainPort, uiMode, dollyTile, towerIds]
+  );
 
-      // first movement in a run should re-arm DONE + start chips
-      resetDoneGuard();
-      pushChip("MOVE");
+  const clearExplain = useCallback(() => {
+    setExplain(null);
+    setExplainFrame(0);
+  }, []);
 
-      setPath(nextPath);
-      pathRef.current = nextPath;
-      return;
-    }
+  const searchFrame = useMemo(
+    () => (explain ? traceFrameAt(explain.trace, explainFrame) : null),
+    [explain, explainFrame]
+  );
+  const [maskError, setMaskError] = useState<string | null>(null);
+  const [paintCost, setPaintCost] = useState(3);
 
-    if (current.type === "LIFT") {
-      const at = dollyTileRef.current;
-      const target = current.tile;
+  const selectMaskTool = useCallback((tool: FloorTool | null) => {
+    setMaskTool(tool);
+    setMaskError(null);
+    if (tool) setExplainArmed(false);
+  }, []);
 
-      if (!tileEquals(at, target)) {
-        tryRewriteWithMove(target, current);
-        return;
-      }
+  const paintTile = useCallback(
+    (tile: Tile) => {
+      if (!maskTool || maskTool === "WALL" || actionsDisabled) return;
+      const s = store.getState();
 
-      if (carryingRef.current) {
-        popHead();
-        kick();
+      if (maskTool === "COST") {
+        const next = paintTileCost(s.grid, tile, paintCost);
+        if (next !== s.grid) rebuildOnGrid(next, [...s.towers], s.carrying, s.dolly.tile);
         return;
       }
 
-      const towerList = towersRef.current;
-      if (!tileHasTower(target, towerList)) {
-        popHead();
-        kick();
-        return;
+      if (maskTool !== "OPEN") {
+        const at = `(${tile.x}, ${tile.z})`;
+        if (s.towers.some((t) => tileEquals(t.tile, tile))) {
+          setMaskError(`${at} has a tower; move it first`);
+          return;
+        }
+        if (tileEquals(s.dolly.tile, tile)) {
+          setMaskError(`${at} is under the dolly`);
+          return;
+        }
       }
 
-      const nextTowers = towerList.filter((t) => !tileEquals(t, target));
-      towersRef.current = nextTowers;
-      setTowers(nextTowers);
+      const next = paintTileMask(s.grid, tile, maskTool);
+      if (next === s.grid) return;
+      setMaskError(null);
+      rebuildOnGrid(next, [...s.towers], s.carrying, s.dolly.tile);
+    },
+    [maskTool, paintCost, actionsDisabled, store, rebuildOnGrid]
+  );
 
-      carryingRef.current = target;
-      setCarrying(target);
+  const toggleWallAt = useCallback(
+    (edge: Edge) => {
+      if (maskTool !== "WALL" || actionsDisabled) return;
+      const s = store.getState();
+      setMaskError(null);
+      rebuildOnGrid(toggleWall(s.grid, edge), [...s.towers], s.carrying, s.dolly.tile);
+    },
+    [maskTool, actionsDisabled, store, rebuildOnGrid]
+  );
 
-      pushChip("LIFT");
+  const clearMask = useCallback(() => {
+    if (actionsDisabled) return;
+    const s = store.getState();
+    setMaskError(null);
+    rebuildOnGrid(clearFloorMask(s.grid), [...s.towers], s.carrying, s.dolly.tile);
+  }, [actionsDisabled, store, rebuildOnGrid]);
 
-      refreshRuntimeGraphs();
+  // --------------------------
+  // World snapshot (save / load)
+  // --------------------------
+  const [worldFileError, setWorldFileError] = useState<string | null>(initialLink.error);
+
+  const saveWorld = useCallback(() => {
+    const snapshot = captureSnapshot(store.getState(), {
+      activeView,
+      simCamMode,
+      worldCamMode,
+      showGrid,
+    });
+    downloadJson("dolly-world.json", serializeWorldSnapshot(snapshot));
+  }, [store, activeView, simCamMode, worldCamMode, showGrid]);
 
-      popHead();
-      kick();
-      return;
-    }
+  const loadWorldFile = useCallback(
+    async (file: File) => {
+      try {
+        const snapshot = parseWorldSnapshot(await file.text());
 
-    // DROP
-    if (current.type === "DROP") {
-      const at = dollyTileRef.current;
-      const target = current.tile;
+        startWorld(snapshotToInit(snapshot, motion));
+        setScenario(null); // a snapshot carries no goal
 
-      if (!tileEquals(at, target)) {
-        tryRewriteWithMove(target, current);
-        return;
-      }
+        setActiveView(snapshot.view.activeView);
+        setSimCamMode(snapshot.view.simCamMode);
+        setWorldCamMode(snapshot.view.worldCamMode);
+        setShowGrid(snapshot.view.showGrid);
 
-      const carryingNow = carryingRef.current;
-      if (!carryingNow) {
-        popHead();
-        kick();
-        return;
+        setWorldFileError(null);
+      } catch (err) {
+        setWorldFileError(err instanceof Error ? err.message : String(err));
       }
+    },
+    [startWorld, motion]
+  );
 
-      const towerList = towersRef.current;
-      if (tileHasTower(target, towerList)) {
-        popHead();
-        kick();
+  // --------------------------
+  // Share link (URL hash)
+  // --------------------------
+  const copyShareLink = useCallback(
+    async (includeQueue: boolean) => {
+      const link = captureShareLink(
+        store.getState(),
+        { activeView, simCamMode, worldCamMode, showGrid },
+        includeQueue
+      );
+      // replaceState: no hashchange, so we don't reload our own world
+      window.history.replaceState(null, "", encodeShareHash(link));
+      // without clipboard access (insecure context) the link is still in the address bar
+      if (!navigator.clipboard) throw new Error("clipboard unavailable");
+      await navigator.clipboard.writeText(window.location.href);
+    },
+    [store, activeView, simCamMode, worldCamMode, showGrid]
+  );
+
+  // a link pasted into this tab's address bar
+  useEffect(() => {
+    const onHashChange = () => {
+      const { link, error } = readShareHash();
+      if (error) {
+        setWorldFileError(error);
         return;
       }
+      if (!link) return;
+
+      startWorld(shareLinkToInit(link, motion));
+      setScenario(null);
+      setActiveView(link.view.activeView);
+      setSimCamMode(link.view.simCamMode);
+      setWorldCamMode(link.view.worldCamMode);
+      setShowGrid(link.view.showGrid);
+      setWorldFileError(null);
+    };
 
-      const nextTowers = [...towerList, target];
-      towersRef.current = nextTowers;
-      setTowers(nextTowers);
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, [startWorld, motion]);
 
-      carryingRef.current = null;
-      setCarrying(null);
+  // drag-and-drop a snapshot anywhere on the page
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+  }, []);
 
-      pushChip("DROP");
+  const handleDrop = useCallback(
+    (e: React.DragEvent) => {
+      const file = e.dataTransfer.files[0];
+      if (!file) return;
+      e.preventDefault();
+      void loadWorldFile(file);
+    },
+    [loadWorldFile]
+  );
 
-      refreshRuntimeGraphs();
+  // --------------------------
+  // Undo / redo
+  // --------------------------
+  const [editMode, setEditMode] = useState(false);
 
-      popHead();
-      kick();
-      return;
-    }
+  const handleUndo = useCallback(() => {
+    if (replaying) return;
+    store.undo(editMode ? "INSTANT" : "PLAN");
+  }, [store, editMode, replaying]);
 
-    // Fallback: unknown / unsupported cmd => drop it
-    popHead();
-    kick();
-  }, [popHead, pushDoneChipIfMissing, pushChip, refreshRuntimeGraphs, replaceQueue, resetDoneGuard]);
+  const handleRedo = useCallback(() => {
+    if (replaying) return;
+    store.redo(editMode ? "INSTANT" : "PLAN");
+  }, [store, editMode, replaying]);
 
   useEffect(() => {
-    runNextRef.current = runNext;
-  }, [runNext]);
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
 
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [handleUndo, handleRedo]);
 
   // --------------------------
   // Grid hover/click
@@ -393,22 +751,20 @@ function App() {
 
   const handleTileClick = useCallback(
     (tile: Tile) => {
+      if (maskTool) {
+        paintTile(tile);
+        return;
+      }
+      if (explainArmed) {
+        explainTile(tile);
+        return;
+      }
       if (actionsDisabled) return;
       enqueue([CMD.moveTo(tile)]);
     },
-    [actionsDisabled, enqueue]
+    [maskTool, paintTile, explainArmed, explainTile, actionsDisabled, enqueue]
   );
 
-  const handleArrive = useCallback((tile: Tile) => {
-    setDollyTile(tile);
-    dollyTileRef.current = tile;
-
-    setPath([]);
-    pathRef.current = [];
-
-    queueMicrotask(() => runNextRef.current());
-  }, []);
-
   // --------------------------
   // Hover overlay intents
   // --------------------------
@@ -433,33 +789,10 @@ function App() {
         return;
       }
 
-      // SWAP_WITH
-      const aOrigin = carryingRef.current;
-      if (!aOrigin) return;
-
-      const bOrigin = tile;
-
-      refreshRuntimeGraphs();
-
-      const ts = towerSetRef.current as unknown as ReadonlySet<string>;
-      if (!ts.has(toTileId(bOrigin) as unknown as string)) return;
-
-      const swapStart = dollyTileRef.current;
-
-      const cmds = expandSwap({
-        grid,
-        swapStart,
-        aOrigin,
-        bOrigin,
-        adjTransport: adjTransportRef.current,
-        towerSet: towerSetRef.current as unknown as ReadonlySet<TileId>,
-      });
-
-      // "SWAP" is a semantic chip for the user's intent (the queue itself will still emit MOVE/LIFT/DROP as it runs)
-      pushChip("SWAP");
-      enqueue(cmds);
+      // SWAP_WITH: one queued command, expanded by the runner when it reaches the head
+      enqueue([CMD.swap(tile)]);
     },
-    [actionsDisabled, enqueue, grid, pushChip, refreshRuntimeGraphs]
+    [actionsDisabled, enqueue]
   );
 
   // --------------------------
@@ -483,7 +816,7 @@ function App() {
       simCamMode === "DESTINATION_TILE");
 
   return (
-    <div className="app-root">
+    <div className="app-root" onDragOver={handleDragOver} onDrop={handleDrop}>
       <h1 className='project-title'>dolly_grid_sim v0.1</h1>
       {/* ABOUT MODAL BUTTON */}
       <div className="about-button-wrap">
@@ -502,11 +835,14 @@ function App() {
           hoveredTile={hoveredTile}
           onTileHover={handleTileHover}
           onTileClick={handleTileClick}
-          onArrive={handleArrive}
+          sampleDolly={store.sampleDolly}
           hoverPath={hoverPath}
+          hoverColor={hoverColor}
+          comparePath={comparePath}
+          searchFrame={searchFrame}
           carrying={carrying}
           isMoving={isMoving}
-          queueLen={queue.length}
+          queueLen={pendingLen}
           hoveredTowerTile={hoveredTowerTile}
           onTowerHover={handleTowerHover}
           onHoverIntent={onHoverIntent}
@@ -514,6 +850,8 @@ function App() {
           simCamMode={simCamMode}
           simCamReseed={simCamReseed}
           showGrid={showGrid}
+          floorTool={maskTool}
+          onEdgeClick={toggleWallAt}
         />
 
         {!simIsPrimary && (
@@ -533,17 +871,22 @@ function App() {
           hoveredTile={hoveredTile}
           onTileHover={handleTileHover}
           onTileClick={handleTileClick}
-          onArrive={handleArrive}
+          sampleDolly={store.sampleDolly}
           hoverPath={hoverPath}
+          hoverColor={hoverColor}
+          comparePath={comparePath}
+          searchFrame={searchFrame}
           carrying={carrying}
           isMoving={isMoving}
-          queueLen={queue.length}
+          queueLen={pendingLen}
           hoveredTowerTile={hoveredTowerTile}
           onTowerHover={handleTowerHover}
           onHoverIntent={onHoverIntent}
           activeView={activeView}
           worldCamMode={worldCamMode}
           showGrid={showGrid}
+          floorTool={maskTool}
+          onEdgeClick={toggleWallAt}
         />
 
         {!worldIsPrimary && (
@@ -562,12 +905,77 @@ function App() {
           carrying={carrying}
           isMoving={isMoving}
           path={path}
-          speed={speed}
+          pathCost={activePathCost}
+          maxSpeed={world.carrying ? motion.maxSpeedCarrying : motion.maxSpeed}
+          sampleDolly={store.sampleDolly}
           queueHistory={queueHistory}
+          lastResult={eventLog[0] ?? null}
+          pendingCount={pendingLen}
+          macro={world.macro}
+          canUndo={!actionsDisabled && world.history.past.length > 0}
+          canRedo={!actionsDisabled && world.history.future.length > 0}
+          editMode={editMode}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onToggleEditMode={() => setEditMode((v) => !v)}
         />
 
       <OrbitHint show={showOrbitHint} />
 
+      {/* Sim tooling (left column) */}
+      <div className="side-stack">
+        <ClockPanel timeline={store.timeline} />
+        <WorldFilePanel
+          error={worldFileError}
+          onSave={saveWorld}
+          onLoadFile={(file) => void loadWorldFile(file)}
+          onCopyLink={copyShareLink}
+        />
+        <GridSettingsPanel grid={grid} disabled={actionsDisabled} onApply={applyGridSize} />
+        <FloorMaskPanel
+          tool={maskTool}
+          blockedCount={grid.blocked?.length ?? 0}
+          voidCount={grid.voids?.length ?? 0}
+          wallCount={grid.walls?.length ?? 0}
+          costCount={grid.costs?.length ?? 0}
+          paintCost={paintCost}
+          onChangePaintCost={setPaintCost}
+          error={maskError}
+          disabled={actionsDisabled}
+          onSelectTool={selectMaskTool}
+          onClear={clearMask}
+        />
+        <PlannerComparePanel
+          activeAlgorithm={world.pathAlgorithm}
+          compareAlgorithm={compareAlgorithm}
+          rows={compareRows}
+          onSelectCompare={setCompareChoice}
+        />
+        <ExplainPanel
+          armed={explainArmed}
+          trace={explain?.trace ?? null}
+          plannerLabel={explain?.label ?? ""}
+          frame={explainFrame}
+          disabled={replaying}
+          onArm={armExplain}
+          onSeek={setExplainFrame}
+          onClear={clearExplain}
+        />
+        <ReplayPanel
+          timeline={store.timeline}
+          replayLog={replay?.log ?? null}
+          onExport={liveStore.exportLog}
+          onLoad={loadReplay}
+          onSeek={seekReplay}
+          onExit={exitReplay}
+        />
+        <EventLog entries={eventLog} tickRate={store.timeline.tickRate} />
+        <DebugPanel
+          getPathCacheStats={replaying ? store.getPathCacheStats : planClient.cacheStats}
+          planThread={replaying || !planClient.offThread() ? "in-thread" : "worker"}
+        />
+      </div>
+
       <ControlPanel
         activeView={activeView}
         onSetActiveView={setActiveView}
@@ -577,6 +985,20 @@ function App() {
         onSetWorldCamMode={setWorldCamMode}
         showGrid={showGrid}
         onToggleGrid={() => setShowGrid((v) => !v)}
+        scenarioOptions={SAMPLE_BOARDS}
+        scenarioId={scenario?.id ?? null}
+        scenarioDescription={scenario?.scenario.description ?? null}
+        goalProgress={goalProgress}
+        scenarioError={scenarioError}
+        onPickScenario={pickScenario}
+        onLoadScenarioFile={(file) => void loadScenarioFile(file)}
+        layout={layout}
+        onChangeLayout={changeLayout}
+        onGenerateLayout={generateTowers}
+        pathAlgorithm={world.pathAlgorithm}
+        onSetPathAlgorithm={setPathAlgorithm}
+        searchStats={searchStats}
+        planning={world.planning !== null}
       />
 
       <AboutModal open={aboutOpen} onClose={() => setAboutOpen(false)} />
@@ -11,10 +11,19 @@ import TowerClones from "./shared/TowerClones";
 import HoverTowerControls from "./shared/HoverTowerControls";
 import AnimatedPathLine from "./shared/AnimatedPathLine";
 import PathLine from "./shared/PathLine";
+import type { PathOverlay } from "./shared/PathLine";
+import SearchTraceOverlay from "./shared/SearchTraceOverlay";
+import type { TraceFrame } from "../world/pathfinding/searchTrace";
 import TilePickerGrid from "./shared/TilePickerGrid";
+import EdgePicker from "./shared/EdgePicker";
+import Walls from "./shared/Walls";
+import CostOverlay from "./shared/CostOverlay";
+import type { FloorTool } from "../ui/FloorMaskPanel";
+import type { Edge } from "../world/pathfinding/neighbors";
 import HoverHighlight from "./shared/HoverHighlight";
 import HoverTileControls from "./shared/HoverTileControls";
 import type { HoverIntent } from "../world/sim/commands";
+import type { DollySample } from "../../state/worldStore";
 import { Environment } from "@react-three/drei";
 import "../styles/globals.css";
 
@@ -601,8 +610,11 @@ type SimViewCanvasProps = {
 
   onTowerHover: (tile: Tile | null) => void;
 
-  onArrive?: (tile: Tile) => void;
+  sampleDolly: () => DollySample;
   hoverPath: readonly Tile[];
+  hoverColor?: string;
+  comparePath: PathOverlay | null; // planner comparison overlay
+  searchFrame: TraceFrame | null; // explain-path step-through
 
   onHoverIntent: (intent: HoverIntent) => void;
   activeView: "SIM" | "WORLD";
@@ -611,6 +623,8 @@ type SimViewCanvasProps = {
   simCamReseed: number;
 
   showGrid: boolean;
+  floorTool: FloorTool | null; // floor editing: clicks paint tiles / toggle walls, no action overlays
+  onEdgeClick: (edge: Edge) => void;
 };
 
 
@@ -625,8 +639,11 @@ export default function SimViewCanvas({
   hoveredTile,
   hoveredTowerTile,
   onTowerHover,
-  onArrive,
+  sampleDolly,
   hoverPath,
+  hoverColor,
+  comparePath,
+  searchFrame,
   isMoving,
   queueLen,
   onHoverIntent,
@@ -634,6 +651,8 @@ export default function SimViewCanvas({
   simCamMode,
   simCamReseed,
   showGrid,
+  floorTool,
+  onEdgeClick,
 }: SimViewCanvasProps) {
 const isActive = activeView === "SIM";
   const actionsDisabled = isMoving || queueLen > 0;
@@ -709,9 +728,24 @@ const isActive = activeView === "SIM";
         <Environment preset="apartment" backgroundBlurriness={3} />
 
         <Floor grid={grid} />
-        <PathLine grid={grid} path={hoverPath} yOffset={.05} />
+        <Walls grid={grid} />
+        <CostOverlay grid={grid} />
+        <SearchTraceOverlay grid={grid} frame={searchFrame} />
+        <PathLine grid={grid} path={hoverPath} yOffset={.05} color={hoverColor} />
+        {comparePath && (
+          <PathLine
+            grid={grid}
+            path={comparePath.path}
+            yOffset={0.06}
+            color={comparePath.color}
+          />
+        )}
         {showGrid && <GridOverlay grid={grid} />}
-        <AnimatedPathLine grid={grid} path={path} speed={2} />
+        <AnimatedPathLine
+          grid={grid}
+          path={path}
+          getDistance={() => sampleDolly().distance}
+        />
 
         <TowerClones
           grid={grid}
@@ -735,6 +769,10 @@ const isActive = activeView === "SIM";
         )}
         {isActive && !isMoving && (
         <>
+            {floorTool === "WALL" ? (
+            <EdgePicker grid={grid} onClick={onEdgeClick} />
+            ) : (
+            <>
             <HoverHighlight grid={grid} tile={hoveredTile} />
 
             {/* Hover + click picking */}
@@ -742,9 +780,13 @@ const isActive = activeView === "SIM";
             grid={grid}
             onHover={onTileHover}
             onClick={onTileClick}
+            includeClosed={floorTool !== null}
             />
+            </>
+            )}
 
             {/* MOVE/DROP */}
+            {!floorTool && (
             <HoverTileControls
             grid={grid}
             hoveredTile={hoveredTile}
@@ -753,8 +795,10 @@ const isActive = activeView === "SIM";
             disabled={actionsDisabled}
             onIntent={onHoverIntent}
             />
+            )}
 
             {/* LIFT/SWAP */}
+            {!floorTool && (
             <HoverTowerControls
             grid={grid}
             hoveredTowerTile={hoveredTowerTile}
@@ -763,15 +807,12 @@ const isActive = activeView === "SIM";
             disabled={actionsDisabled}
             onIntent={onHoverIntent}
             />
+            )}
         </>
         )}
 
         <Dolly
-          grid={grid}
-          tile={dollyTile}
-          path={path}
-          speed={2}
-          onArrive={onArrive}
+          getPosition={() => sampleDolly().position}
           isCarrying={carrying !== null}
           carryingHeightScaleY={3}
           onPosition={(pos) => {
@@ -12,10 +12,19 @@ import TowerClones from "./shared/TowerClones";
 import HoverTowerControls from "./shared/HoverTowerControls";
 import AnimatedPathLine from "./shared/AnimatedPathLine";
 import PathLine from "./shared/PathLine";
+import type { PathOverlay } from "./shared/PathLine";
+import SearchTraceOverlay from "./shared/SearchTraceOverlay";
+import type { TraceFrame } from "../world/pathfinding/searchTrace";
 import TilePickerGrid from "./shared/TilePickerGrid";
+import EdgePicker from "./shared/EdgePicker";
+import Walls from "./shared/Walls";
+import CostOverlay from "./shared/CostOverlay";
+import type { FloorTool } from "../ui/FloorMaskPanel";
+import type { Edge } from "../world/pathfinding/neighbors";
 import HoverHighlight from "./shared/HoverHighlight";
 import HoverTileControls from "./shared/HoverTileControls";
 import type { HoverIntent } from "../world/sim/commands";
+import type { DollySample } from "../../state/worldStore";
 
 import { Environment } from "@react-three/drei";
 import "../styles/globals.css";
@@ -26,6 +35,7 @@ import { tileToWorldCenter } from "../world/grid/gridMath";
 // ✅ world cam selection (static cams + snap switching)
 import {
   buildWorldCamMap,
+  getOverviewHeight,
   getActiveWorldCamIdV2,
   WORLD_FOV,
   WORLD_NEAR,
@@ -280,7 +290,7 @@ function WorldCamController({
   useEffect(() => {
     if (worldCamMode === "CENTER_OVERVIEW") {
       applySpec({
-        position: { x: gridCenter.x, y: 16, z: gridCenter.z},
+        position: { x: gridCenter.x, y: getOverviewHeight(grid), z: gridCenter.z},
         target: gridCenter,
         fov: WORLD_FOV,
         near: WORLD_NEAR,
@@ -338,7 +348,7 @@ function WorldCamController({
     if (worldCamMode === "CENTER_OVERVIEW") {
       if (lastCamIdRef.current !== "__CENTER__") {
         applySpec({
-          position: { x: gridCenter.x, y: 16, z: gridCenter.z},
+          position: { x: gridCenter.x, y: getOverviewHeight(grid), z: gridCenter.z},
           target: gridCenter,
           fov: WORLD_FOV,
           near: WORLD_NEAR,
@@ -419,8 +429,11 @@ export type WorldViewCanvasProps = {
   onTileClick: (tile: Tile) => void;
   onTowerHover: (tile: Tile | null) => void;
 
-  onArrive?: (tile: Tile) => void;
+  sampleDolly: () => DollySample;
   hoverPath: readonly Tile[];
+  hoverColor?: string;
+  comparePath: PathOverlay | null; // planner comparison overlay
+  searchFrame: TraceFrame | null; // explain-path step-through
 
   onHoverIntent: (intent: HoverIntent) => void;
 
@@ -428,6 +441,8 @@ export type WorldViewCanvasProps = {
   worldCamMode: WorldCamMode;
 
   showGrid: boolean;
+  floorTool: FloorTool | null; // floor editing: clicks paint tiles / toggle walls, no action overlays
+  onEdgeClick: (edge: Edge) => void;
 };
 
 export default function WorldViewCanvas({
@@ -443,12 +458,17 @@ export default function WorldViewCanvas({
   onTileHover,
   onTileClick,
   onTowerHover,
-  onArrive,
+  sampleDolly,
   hoverPath,
+  hoverColor,
+  comparePath,
+  searchFrame,
   onHoverIntent,
   activeView,
   worldCamMode,
   showGrid,
+  floorTool,
+  onEdgeClick,
 }: WorldViewCanvasProps) {
   const isActive = activeView === "WORLD";
   const actionsDisabled = isMoving || queueLen > 0;
@@ -490,9 +510,24 @@ export default function WorldViewCanvas({
         <Environment preset="apartment" backgroundBlurriness={3} />
 
         <Floor grid={grid} />
-        <PathLine grid={grid} path={hoverPath} yOffset={grid.tileSize * 0.26} />
+        <Walls grid={grid} />
+        <CostOverlay grid={grid} />
+        <SearchTraceOverlay grid={grid} frame={searchFrame} />
+        <PathLine grid={grid} path={hoverPath} yOffset={grid.tileSize * 0.26} color={hoverColor} />
+        {comparePath && (
+          <PathLine
+            grid={grid}
+            path={comparePath.path}
+            yOffset={grid.tileSize * 0.26 + 0.01}
+            color={comparePath.color}
+          />
+        )}
 {showGrid && <GridOverlay grid={grid} />}
-        <AnimatedPathLine grid={grid} path={path} speed={2} />
+        <AnimatedPathLine
+          grid={grid}
+          path={path}
+          getDistance={() => sampleDolly().distance}
+        />
 
         <TowerClones
           grid={grid}
@@ -516,40 +551,47 @@ export default function WorldViewCanvas({
 
         {isActive && !isMoving && (
           <>
-            <HoverHighlight grid={grid} tile={hoveredTile} />
-
-            <TilePickerGrid
-              grid={grid}
-              onHover={onTileHover}
-              onClick={onTileClick}
-            />
-
-            <HoverTileControls
-              grid={grid}
-              hoveredTile={hoveredTile}
-              towerTiles={towers}
-              isCarrying={isCarrying}
-              disabled={actionsDisabled}
-              onIntent={onHoverIntent}
-            />
-
-            <HoverTowerControls
-              grid={grid}
-              hoveredTowerTile={hoveredTowerTile}
-              isCarrying={isCarrying}
-              carryingTile={carrying}
-              disabled={actionsDisabled}
-              onIntent={onHoverIntent}
-            />
+            {floorTool === "WALL" ? (
+              <EdgePicker grid={grid} onClick={onEdgeClick} />
+            ) : (
+              <>
+                <HoverHighlight grid={grid} tile={hoveredTile} />
+
+                <TilePickerGrid
+                  grid={grid}
+                  onHover={onTileHover}
+                  onClick={onTileClick}
+                  includeClosed={floorTool !== null}
+                />
+              </>
+            )}
+
+            {!floorTool && (
+              <>
+                <HoverTileControls
+                  grid={grid}
+                  hoveredTile={hoveredTile}
+                  towerTiles={towers}
+                  isCarrying={isCarrying}
+                  disabled={actionsDisabled}
+                  onIntent={onHoverIntent}
+                />
+
+                <HoverTowerControls
+                  grid={grid}
+                  hoveredTowerTile={hoveredTowerTile}
+                  isCarrying={isCarrying}
+                  carryingTile={carrying}
+                  disabled={actionsDisabled}
+                  onIntent={onHoverIntent}
+                />
+              </>
+            )}
           </>
         )}
 
         <Dolly
-          grid={grid}
-          tile={dollyTile}
-          path={path}
-          speed={2}
-          onArrive={onArrive}
+          getPosition={() => sampleDolly().position}
           isCarrying={carrying !== null}
           carryingHeightScaleY={3}
           onPosition={(pos) => {
@@ -11,7 +11,7 @@ type Pt = Readonly<{ x: number; y: number; z: number }>;
 export type AnimatedPathLineProps = {
   grid: GridConfig;
   path: readonly Tile[];
-  speed: number; // world units / second
+  getDistance: () => number; // world units the dolly has travelled along path (from the sim)
   yOffset?: number;
 };
 
@@ -55,7 +55,7 @@ function remainingPolyline(points: readonly Pt[], traveled: number): Pt[] {
 export default function AnimatedPathLine({
   grid,
   path,
-  speed,
+  getDistance,
   yOffset,
 }: AnimatedPathLineProps) {
   const hasPath = path.length >= 2;
@@ -87,7 +87,7 @@ export default function AnimatedPathLine({
   // Track which path we’re currently animating (ref only, no rerender)
   const pathKeyRef = useRef<string>("");
 
-  useFrame((_, dt) => {
+  useFrame(() => {
     const key = path.map((t) => `${t.x}:${t.z}`).join(">");
 
     // If path changed, reset safely here (frame loop is allowed to touch refs/state)
@@ -110,8 +110,8 @@ export default function AnimatedPathLine({
       return;
     }
 
-    // Advance along path
-    progressRef.current = Math.min(totalLength, progressRef.current + speed * dt);
+    // Follow the sim's progress along path
+    progressRef.current = Math.min(totalLength, Math.max(0, getDistance()));
 
     // Remaining segment after traveling progress
     const next = remainingPolyline(fullPoints, progressRef.current);
@@ -0,0 +1,36 @@
+// src/app/scenes/shared/CostOverlay.tsx
+import type { GridConfig } from "../../world/grid/gridTypes";
+import { MAX_TILE_COST, tileToWorldCenter } from "../../world/grid/gridMath";
+
+export type CostOverlayProps = {
+  grid: GridConfig;
+};
+
+// amber (cheap slow zone) -> red (as expensive as allowed)
+function costColor(cost: number): string {
+  const t = Math.min(1, Math.max(0, (cost - 1) / (MAX_TILE_COST - 1)));
+  const g = Math.round(190 * (1 - t));
+  return `rgb(230, ${g}, 40)`;
+}
+
+export default function CostOverlay({ grid }: CostOverlayProps) {
+  const y = grid.origin.y + grid.tileSize * 0.005; // under GridOverlay / HoverHighlight
+
+  return (
+    <group>
+      {(grid.costs ?? []).map(({ tile, cost }) => {
+        const p = tileToWorldCenter(tile, grid);
+        return (
+          <mesh
+            key={`${tile.x}:${tile.z}`}
+            position={[p.x, y, p.z]}
+            rotation={[-Math.PI / 2, 0, 0]}
+          >
+            <planeGeometry args={[grid.tileSize * 0.96, grid.tileSize * 0.96]} />
+            <meshBasicMaterial transparent color={costColor(cost)} opacity={0.35} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
@@ -5,15 +5,14 @@ import { Box3, Vector3 } from "three";
 import type { Group } from "three";
 import { SkeletonUtils } from "three-stdlib";
 
-import type { GridConfig, Tile, Vec3 } from "../../world/grid/gridTypes";
-import { tileToWorldCenter } from "../../world/grid/gridMath";
+import type { Vec3 } from "../../world/grid/gridTypes";
 
 export type DollyProps = {
-  grid: GridConfig;
-  tile: Tile;
-  path: readonly Tile[];
-  speed: number; // world units / second
-  onArrive?: (tile: Tile) => void;
+  /**
+   * Kernel-owned pose for this frame (already interpolated between ticks).
+   * The dolly never advances itself; it only renders where the sim says it is.
+   */
+  getPosition: () => Vec3;
 
   // expose actual rendered world position each frame (still used to glue carried tower)
   onPosition?: (pos: Vec3) => void;
@@ -28,8 +27,6 @@ export type DollyProps = {
   carryingHeightScaleY?: number;
 };
 
-type Pt = Readonly<{ x: number; y: number; z: number }>;
-
 const DOLLY_URL = "/assets/dolly-model.glb";
 const DOLLY_HOVER_Y = 0;
 
@@ -41,11 +38,7 @@ function lerp(a: number, b: number, t: number): number {
 }
 
 export default function Dolly({
-  grid,
-  tile,
-  path,
-  speed,
-  onArrive,
+  getPosition,
   onPosition,
   isCarrying,
   carryingHeightScaleY,
@@ -56,9 +49,6 @@ export default function Dolly({
   // Model scale group (footprint fit + height scaling) lives here
   const modelGroupRef = useRef<Group | null>(null);
 
-  const arrivedRef = useRef(false);
-  const traveledRef = useRef(0);
-
   const gltf = useGLTF(DOLLY_URL);
 const model = useMemo(() => SkeletonUtils.clone(gltf.scene) as Group, [gltf.scene]);
 
@@ -79,40 +69,6 @@ const { modelScale, modelOffset } = useMemo(() => {
 }, [model]);
 
 
-  const points = useMemo<Pt[]>(() => {
-    if (path.length < 1) return [];
-    return path.map((t) => {
-      const p = tileToWorldCenter(t, grid);
-      return { x: p.x, y: p.y + DOLLY_HOVER_Y, z: p.z };
-    });
-  }, [grid, path]);
-
-  const segLengths = useMemo<number[]>(() => {
-    if (points.length < 2) return [];
-    const out: number[] = [];
-    for (let i = 0; i < points.length - 1; i++) {
-      const a = points[i];
-      const b = points[i + 1];
-      const dx = b.x - a.x;
-      const dy = b.y - a.y;
-      const dz = b.z - a.z;
-      out.push(Math.sqrt(dx * dx + dy * dy + dz * dz));
-    }
-    return out;
-  }, [points]);
-
-  const totalLength = useMemo(() => segLengths.reduce((acc, n) => acc + n, 0), [segLengths]);
-
-  const fallbackPos = useMemo<[number, number, number]>(() => {
-    const p = tileToWorldCenter(tile, grid);
-    return [p.x, p.y + DOLLY_HOVER_Y, p.z];
-  }, [grid, tile]);
-
-  useEffect(() => {
-    arrivedRef.current = false;
-    traveledRef.current = 0;
-  }, [path]);
-
   // Height animation state (1 -> target) over 0.25s
   const heightAnimRef = useRef<{
     from: number;
@@ -155,46 +111,11 @@ const { modelScale, modelOffset } = useMemo(() => {
       }
     }
 
-    // Movement (unchanged)
-    if (points.length < 2 || segLengths.length < 1 || totalLength <= 0) {
-      const x = fallbackPos[0];
-      const y = fallbackPos[1];
-      const z = fallbackPos[2];
-
-      obj.position.set(x, y, z);
-      onPosition?.({ x, y, z });
-      return;
-    }
-
-    traveledRef.current = Math.min(totalLength, traveledRef.current + speed * dt);
-
-    let d = traveledRef.current;
-    let segIndex = 0;
-    while (segIndex < segLengths.length && d >= segLengths[segIndex]) {
-      d -= segLengths[segIndex];
-      segIndex++;
-    }
-
-    if (segIndex >= segLengths.length) {
-      const end = points[points.length - 1];
-      obj.position.set(end.x, end.y, end.z);
-      onPosition?.({ x: end.x, y: end.y, z: end.z });
-
-      if (onArrive && !arrivedRef.current) {
-        arrivedRef.current = true;
-        onArrive(path[path.length - 1]);
-      }
-      return;
-    }
-
-    const a = points[segIndex];
-    const b = points[segIndex + 1];
-    const segLen = segLengths[segIndex];
-    const t = segLen > 0 ? d / segLen : 0;
-
-    const x = a.x + (b.x - a.x) * t;
-    const y = a.y + (b.y - a.y) * t;
-    const z = a.z + (b.z - a.z) * t;
+    // Movement: sample the sim (no local integration)
+    const p = getPosition();
+    const x = p.x;
+    const y = p.y + DOLLY_HOVER_Y;
+    const z = p.z;
 
     obj.position.set(x, y, z);
     onPosition?.({ x, y, z });
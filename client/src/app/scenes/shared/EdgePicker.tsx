@@ -0,0 +1,78 @@
+// src/app/scenes/shared/EdgePicker.tsx
+import { useState } from "react";
+import type { GridConfig } from "../../world/grid/gridTypes";
+import type { Edge } from "../../world/pathfinding/neighbors";
+import { edgeBetween } from "../../world/pathfinding/neighbors";
+import { wallBox } from "./wallBox";
+
+export type EdgePickerProps = {
+  grid: GridConfig;
+  onClick: (edge: Edge) => void;
+};
+
+// How close (in tiles) the pointer must be to a grid line to pick it
+const PICK_RADIUS = 0.25;
+
+/**
+ * Interior grid-line segment nearest a point on the floor, or null when the
+ * point is mid-tile or on the outer border (border lines have only one tile).
+ */
+function edgeAtPoint(grid: GridConfig, px: number, pz: number): Edge | null {
+  const gx = (px - grid.origin.x) / grid.tileSize;
+  const gz = (pz - grid.origin.z) / grid.tileSize;
+
+  const dx = Math.abs(gx - Math.round(gx)); // distance to nearest column line
+  const dz = Math.abs(gz - Math.round(gz)); // distance to nearest row line
+  if (Math.min(dx, dz) > PICK_RADIUS) return null;
+
+  if (dx <= dz) {
+    const line = Math.round(gx);
+    const z = Math.floor(gz);
+    if (line < 1 || line >= grid.cols || z < 0 || z >= grid.rows) return null;
+    return edgeBetween({ x: line - 1, z }, { x: line, z });
+  }
+
+  const line = Math.round(gz);
+  const x = Math.floor(gx);
+  if (line < 1 || line >= grid.rows || x < 0 || x >= grid.cols) return null;
+  return edgeBetween({ x, z: line - 1 }, { x, z: line });
+}
+
+/** One invisible plane over the grid; resolves pointer position to the nearest boundary. */
+export default function EdgePicker({ grid, onClick }: EdgePickerProps) {
+  const [hovered, setHovered] = useState<Edge | null>(null);
+
+  const width = grid.cols * grid.tileSize;
+  const depth = grid.rows * grid.tileSize;
+  const y = grid.origin.y + grid.tileSize * 0.01;
+  const preview = hovered ? wallBox(hovered, grid) : null;
+
+  return (
+    <group>
+      <mesh
+        position={[grid.origin.x + width / 2, y, grid.origin.z + depth / 2]}
+        rotation={[-Math.PI / 2, 0, 0]}
+        onPointerMove={(e) => {
+          e.stopPropagation();
+          setHovered(edgeAtPoint(grid, e.point.x, e.point.z));
+        }}
+        onPointerLeave={() => setHovered(null)}
+        onClick={(e) => {
+          e.stopPropagation();
+          const edge = edgeAtPoint(grid, e.point.x, e.point.z);
+          if (edge) onClick(edge);
+        }}
+      >
+        <planeGeometry args={[width, depth]} />
+        <meshBasicMaterial transparent opacity={0} />
+      </mesh>
+
+      {preview && (
+        <mesh position={preview.position}>
+          <boxGeometry args={preview.size} />
+          <meshBasicMaterial transparent color={"aliceblue"} opacity={0.4} />
+        </mesh>
+      )}
+    </group>
+  );
+}
@@ -1,11 +1,35 @@
 // src/app/scenes/shared/Floor.tsx
+import { useMemo } from "react";
 import type { GridConfig, Vec3 } from "../../world/grid/gridTypes";
+import { toTileId } from "../../world/grid/gridTypes";
+import { buildVoidSet, tileToWorldCenter } from "../../world/grid/gridMath";
 
 
 type FloorProps = {
   grid: GridConfig;
 };
 
+// Contiguous run of floor tiles along x in one row (one box per run)
+type FloorRun = { z: number; x0: number; x1: number };
+
+function floorRuns(grid: GridConfig): FloorRun[] {
+  const voids = buildVoidSet(grid);
+  const runs: FloorRun[] = [];
+
+  for (let z = 0; z < grid.rows; z++) {
+    let start = -1;
+    for (let x = 0; x <= grid.cols; x++) {
+      const isFloor = x < grid.cols && !voids.has(toTileId({ x, z }));
+      if (isFloor && start < 0) start = x;
+      if (!isFloor && start >= 0) {
+        runs.push({ z, x0: start, x1: x - 1 });
+        start = -1;
+      }
+    }
+  }
+  return runs;
+}
+
 export default function Floor({ grid }: FloorProps) {
   const { cols, rows, tileSize, origin } = grid;
 
@@ -20,10 +44,45 @@ export default function Floor({ grid }: FloorProps) {
     z: origin.z + depth / 2,
   };
 
+  // ✅ Only split the slab when the outline is not a plain rectangle
+  const runs = useMemo(() => (grid.voids?.length ? floorRuns(grid) : null), [grid]);
+
   return (
-    <mesh position={[center.x, center.y - height / 2, center.z]}>
-      <boxGeometry args={[width, height, depth]} />
-      <meshStandardMaterial color="#343434" />
-    </mesh>
+    <group>
+      {runs === null ? (
+        <mesh position={[center.x, center.y - height / 2, center.z]}>
+          <boxGeometry args={[width, height, depth]} />
+          <meshStandardMaterial color="#343434" />
+        </mesh>
+      ) : (
+        runs.map((r) => {
+          const runWidth = (r.x1 - r.x0 + 1) * tileSize;
+          return (
+            <mesh
+              key={`${r.z}:${r.x0}`}
+              position={[
+                origin.x + r.x0 * tileSize + runWidth / 2,
+                origin.y - height / 2,
+                origin.z + (r.z + 0.5) * tileSize,
+              ]}
+            >
+              <boxGeometry args={[runWidth, height, tileSize]} />
+              <meshStandardMaterial color="#343434" />
+            </mesh>
+          );
+        })
+      )}
+
+      {/* Blocked tiles: floor with a pillar on it */}
+      {(grid.blocked ?? []).map((tile) => {
+        const p = tileToWorldCenter(tile, grid);
+        return (
+          <mesh key={`blocked:${tile.x}:${tile.z}`} position={[p.x, p.y + height, p.z]}>
+            <boxGeometry args={[tileSize * 0.9, height * 2, tileSize * 0.9]} />
+            <meshStandardMaterial color="#6b4a3a" />
+          </mesh>
+        );
+      })}
+    </group>
   );
 }
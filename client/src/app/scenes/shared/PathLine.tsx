@@ -7,9 +7,13 @@ export type PathLineProps = {
   grid: GridConfig;
   path: readonly Tile[];
   yOffset?: number; // optional
+  color?: string; // defaults to the planner-preview purple
 };
 
-export default function PathLine({ grid, path, yOffset }: PathLineProps) {
+// A second planner's route drawn next to the hover path
+export type PathOverlay = Readonly<{ path: readonly Tile[]; color: string }>;
+
+export default function PathLine({ grid, path, yOffset, color }: PathLineProps) {
   if (path.length < 2) return null;
 
   const epsilon = yOffset ?? 0.05;
@@ -19,7 +23,7 @@ export default function PathLine({ grid, path, yOffset }: PathLineProps) {
     return [p.x, p.y + epsilon, p.z];
   });
 
-  const glowColor = "#870fcc";
+  const glowColor = color ?? "#870fcc";
 
   return (
     <group>
@@ -0,0 +1,67 @@
+// src/app/scenes/shared/SearchTraceOverlay.tsx
+import { useMemo } from "react";
+import { Line } from "@react-three/drei";
+import type { GridConfig, TileId } from "../../world/grid/gridTypes";
+import { parseTileId, tileToWorldCenter } from "../../world/grid/gridMath";
+import type { TraceFrame } from "../../world/pathfinding/searchTrace";
+import PathLine from "./PathLine";
+
+export type SearchTraceOverlayProps = {
+  grid: GridConfig;
+  frame: TraceFrame | null;
+};
+
+// early visits blue -> late visits green
+function visitColor(order: number, total: number): string {
+  const t = total > 1 ? order / (total - 1) : 0;
+  return `hsl(${Math.round(220 - 100 * t)}, 70%, 50%)`;
+}
+
+const FRONTIER_COLOR = "#ffd23f";
+const CURRENT_COLOR = "#ffffff";
+
+export default function SearchTraceOverlay({ grid, frame }: SearchTraceOverlayProps) {
+  const y = grid.origin.y + grid.tileSize * 0.01; // above CostOverlay, under HoverHighlight
+  const size = grid.tileSize * 0.9;
+
+  const cell = (id: TileId, color: string, opacity: number) => {
+    const p = tileToWorldCenter(parseTileId(id), grid);
+    return (
+      <mesh key={id} position={[p.x, y, p.z]} rotation={[-Math.PI / 2, 0, 0]}>
+        <planeGeometry args={[size, size]} />
+        <meshBasicMaterial transparent color={color} opacity={opacity} depthWrite={false} />
+      </mesh>
+    );
+  };
+
+  // ✅ cameFrom tree as thin segments (child -> parent)
+  const links = useMemo(() => {
+    if (!frame || frame.cameFrom.size === 0) return null;
+    const points: [number, number, number][] = [];
+    for (const [id, from] of frame.cameFrom) {
+      const a = tileToWorldCenter(parseTileId(id), grid);
+      const b = tileToWorldCenter(parseTileId(from), grid);
+      points.push([a.x, y + 0.01, a.z], [b.x, y + 0.01, b.z]);
+    }
+    return points;
+  }, [frame, grid, y]);
+
+  if (!frame) return null;
+
+  return (
+    <group>
+      {[...frame.visitOrder].map(([id, order]) =>
+        id === frame.current
+          ? cell(id, CURRENT_COLOR, 0.7)
+          : cell(id, visitColor(order, frame.visitCount), 0.4)
+      )}
+      {[...frame.frontier].map((id) => cell(id, FRONTIER_COLOR, 0.55))}
+
+      {links && (
+        <Line points={links} segments color="#ffffff" lineWidth={1} transparent opacity={0.35} />
+      )}
+
+      <PathLine grid={grid} path={frame.traced} yOffset={grid.tileSize * 0.03} color="#ffffff" />
+    </group>
+  );
+}
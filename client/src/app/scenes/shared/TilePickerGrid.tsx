@@ -2,16 +2,27 @@
 
 import { useMemo } from "react";
 import type { GridConfig, Tile } from "../../world/grid/gridTypes";
-import { allTiles, tileToWorldCenter } from "../../world/grid/gridMath";
+import { toTileId } from "../../world/grid/gridTypes";
+import { allTiles, buildClosedSet, tileToWorldCenter } from "../../world/grid/gridMath";
 
 export type TilePickerGridProps = {
   grid: GridConfig;
   onHover: (tile: Tile | null) => void;
   onClick: (tile: Tile) => void;
+  includeClosed?: boolean; // mask painting: blocked / void tiles stay pickable
 };
 
-export default function TilePickerGrid({ grid, onHover, onClick }: TilePickerGridProps) {
-  const tiles = useMemo(() => allTiles(grid), [grid]);
+export default function TilePickerGrid({
+  grid,
+  onHover,
+  onClick,
+  includeClosed = false,
+}: TilePickerGridProps) {
+  const tiles = useMemo(() => {
+    if (includeClosed) return allTiles(grid);
+    const closed = buildClosedSet(grid);
+    return allTiles(grid).filter((t) => !closed.has(toTileId(t)));
+  }, [grid, includeClosed]);
   const y = grid.origin.y + grid.tileSize * 0.01;
 
   return (
@@ -0,0 +1,24 @@
+// src/app/scenes/shared/Walls.tsx
+import type { GridConfig } from "../../world/grid/gridTypes";
+import { edgeKey } from "../../world/pathfinding/neighbors";
+import { wallBox } from "./wallBox";
+
+export type WallsProps = {
+  grid: GridConfig;
+};
+
+export default function Walls({ grid }: WallsProps) {
+  return (
+    <group>
+      {(grid.walls ?? []).map((w) => {
+        const box = wallBox(w, grid);
+        return (
+          <mesh key={edgeKey(w)} position={box.position}>
+            <boxGeometry args={box.size} />
+            <meshStandardMaterial color="#c9a227" />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
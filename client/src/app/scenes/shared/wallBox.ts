@@ -0,0 +1,32 @@
+// src/app/scenes/shared/wallBox.ts
+import type { GridConfig } from "../../world/grid/gridTypes";
+import { parseTileId } from "../../world/grid/gridMath";
+import type { Edge } from "../../world/pathfinding/neighbors";
+
+export type WallBox = {
+  position: [number, number, number];
+  size: [number, number, number];
+};
+
+/**
+ * Thin half-height box standing on the boundary line of `edge` (between its two
+ * tiles). Shared by Walls and the edge picker so the hover preview matches.
+ */
+export function wallBox(edge: Edge, grid: GridConfig): WallBox {
+  const { tileSize, origin } = grid;
+  const a = parseTileId(edge.a);
+  const height = tileSize * 0.45; // half-wall: the dolly reads as passing alongside
+  const thickness = tileSize * 0.06;
+  const y = origin.y + height / 2;
+
+  // X edge: line x = a.x + 1, spanning row a.z. Z edge: line z = a.z + 1, spanning column a.x.
+  return edge.axis === "X"
+    ? {
+        position: [origin.x + (a.x + 1) * tileSize, y, origin.z + (a.z + 0.5) * tileSize],
+        size: [thickness, height, tileSize],
+      }
+    : {
+        position: [origin.x + (a.x + 0.5) * tileSize, y, origin.z + (a.z + 1) * tileSize],
+        size: [tileSize, height, thickness],
+      };
+}
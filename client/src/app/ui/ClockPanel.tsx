@@ -0,0 +1,81 @@
+// src/app/ui/ClockPanel.tsx
+import { useEffect, useState } from "react";
+import type { ClockState, Timeline } from "../world/sim/timeline";
+import "../styles/globals.css";
+
+export type ClockPanelProps = {
+  timeline: Timeline;
+};
+
+function fmtSeconds(sec: number): string {
+  return `${sec.toFixed(2)}s`;
+}
+
+export default function ClockPanel({ timeline }: ClockPanelProps) {
+  const [clock, setClock] = useState<ClockState>(() => timeline.getClock());
+
+  // Poll the sim clock once per frame; only re-render when something visible changed
+  useEffect(() => {
+    let raf = 0;
+
+    const loop = () => {
+      const next = timeline.getClock();
+      setClock((prev) =>
+        prev.tick === next.tick && prev.paused === next.paused ? prev : next
+      );
+      raf = requestAnimationFrame(loop);
+    };
+
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [timeline]);
+
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Sim Clock</div>
+
+      <div className="side-row">
+        <span>
+          <strong>Tick</strong>: {clock.tick}
+        </span>
+        <span>
+          <strong>Sim</strong>: {fmtSeconds(clock.simTime)}
+        </span>
+        <span>
+          <strong>Wall</strong>: {fmtSeconds(clock.wallTime)}
+        </span>
+        <span>
+          <strong>Rate</strong>: {clock.tickRate} Hz
+        </span>
+      </div>
+
+      <div className="side-row">
+        <button
+          type="button"
+          className={clock.paused ? "side-btn side-btn-active" : "side-btn"}
+          onClick={() => (clock.paused ? timeline.resume() : timeline.pause())}
+        >
+          {clock.paused ? "RESUME" : "PAUSE"}
+        </button>
+
+        <button
+          type="button"
+          className="side-btn"
+          disabled={!clock.paused}
+          onClick={() => timeline.stepTicks(1)}
+        >
+          +1 TICK
+        </button>
+
+        <button
+          type="button"
+          className="side-btn"
+          disabled={!clock.paused}
+          onClick={() => timeline.stepTicks(10)}
+        >
+          +10 TICKS
+        </button>
+      </div>
+    </div>
+  );
+}
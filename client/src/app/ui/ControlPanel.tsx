@@ -1,5 +1,10 @@
 // src/app/ui/ControlPanel.tsx
 import React from "react";
+import type { GoalProgress } from "../world/scenarios/scenario";
+import type { LayoutGeneratorId } from "../world/towers/layoutGenerators";
+import { LAYOUT_GENERATORS, getLayoutGenerator } from "../world/towers/layoutGenerators";
+import type { PathAlgorithm } from "../world/pathfinding/findPath";
+import { PLANNER_REGISTRY } from "../world/pathfinding/findPath";
 
 export type ActiveView = "SIM" | "WORLD";
 
@@ -14,6 +19,12 @@ export type SimCamMode =
 
 export type WorldCamMode = "TRACK" | "LANE" | "CENTER_OVERVIEW";
 
+export type LayoutSettings = Readonly<{
+  generatorId: LayoutGeneratorId;
+  seed: number;
+  count: number;
+}>;
+
 type ControlPanelProps = {
   activeView: ActiveView;
   onSetActiveView: (v: ActiveView) => void;
@@ -26,8 +37,28 @@ type ControlPanelProps = {
 
   showGrid: boolean;
   onToggleGrid: () => void;
+
+  scenarioOptions: ReadonlyArray<{ id: string; label: string }>;
+  scenarioId: string | null; // bundled board id; null for none / a loaded file
+  scenarioDescription: string | null;
+  goalProgress: GoalProgress | null;
+  scenarioError: string | null;
+  onPickScenario: (id: string) => void;
+  onLoadScenarioFile: (file: File) => void;
+
+  layout: LayoutSettings;
+  onChangeLayout: (patch: Partial<LayoutSettings>) => void;
+  onGenerateLayout: () => void;
+
+  pathAlgorithm: PathAlgorithm;
+  onSetPathAlgorithm: (a: PathAlgorithm) => void;
+  searchStats: SearchStats | null; // hover preview only
+  planning: boolean; // the runner is waiting on an off-thread plan
 };
 
+// Nodes expanded by the active planner vs a BFS run on the same query
+export type SearchStats = { expanded: number; baseline: number };
+
 type BtnProps = {
   active?: boolean;
   color?: string;
@@ -36,6 +67,16 @@ type BtnProps = {
   children: React.ReactNode;
 };
 
+const INPUT_STYLE: React.CSSProperties = {
+  minWidth: 0,
+  padding: "5px 6px",
+  borderRadius: 8,
+  border: "1px solid rgba(255,255,255,0.25)",
+  background: "rgba(0,0,0,0.35)",
+  color: "white",
+  fontSize: 12,
+};
+
 const SIM_COLOR = "rgba(48, 81, 12, .5)";
 const WORLD_COLOR = "rgba(15, 70, 71, .5)";
 const SIM_TITLE_COLOR = "#30510c";
@@ -115,7 +156,37 @@ export default function ControlPanel({
   onSetWorldCamMode,
   showGrid,
   onToggleGrid,
+  scenarioOptions,
+  scenarioId,
+  scenarioDescription,
+  goalProgress,
+  scenarioError,
+  onPickScenario,
+  onLoadScenarioFile,
+  layout,
+  onChangeLayout,
+  onGenerateLayout,
+  pathAlgorithm,
+  searchStats,
+  planning,
+  onSetPathAlgorithm,
 }: ControlPanelProps) {
+  const usesSeed = getLayoutGenerator(layout.generatorId).usesSeed;
+
+  const fileRef = React.useRef<HTMLInputElement>(null);
+
+  // one status line under the picker: error > goal > description
+  const status = scenarioError
+    ? { text: scenarioError, color: "rgba(255,140,140,0.95)" }
+    : goalProgress
+      ? {
+          text: `Goal: ${goalProgress.done}/${goalProgress.total}${goalProgress.complete ? " ✓ complete" : ""}`,
+          color: goalProgress.complete ? "#9be36b" : "white",
+        }
+      : scenarioDescription
+        ? { text: scenarioDescription, color: "white" }
+        : null;
+
   return (
     <div
       style={{
@@ -134,7 +205,7 @@ export default function ControlPanel({
           pointerEvents: "auto",
           width: 340,
           padding: 10,
-          height: 272,
+          height: 340,
           borderRadius: 12,
           background: "rgba(0,0,0,0.5)",
           border: "1px solid rgba(255,255,255,0.75)",
@@ -146,16 +217,149 @@ export default function ControlPanel({
           Camera Views Control Panel
         </div>
 
-        {/* Row 2: Grid toggle */}
+        {/* Row 2: Grid toggle + scenario picker */}
         <div style={{ marginBottom: 12 }}>
-          <div style={{ fontSize: 11, opacity: 0.75, marginBottom: 6 }}>
-            Grid Overlay
+          <div style={{ display: "flex", gap: 16 }}>
+            <div>
+              <div style={{ fontSize: 11, opacity: 0.75, marginBottom: 6 }}>
+                Grid Overlay
+              </div>
+              <div style={{ display: "flex", gap: 8, flexWrap: "wrap"}}>
+                <Btn active={showGrid} color={SIM_COLOR} onClick={onToggleGrid}>
+                  {showGrid ? "ON" : "OFF"}
+                </Btn>
+              </div>
+            </div>
+
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 11, opacity: 0.75, marginBottom: 6 }}>
+                Scenario
+              </div>
+              <div style={{ display: "flex", gap: 8 }}>
+                <select
+                  value={scenarioId ?? ""}
+                  onChange={(e) => e.target.value && onPickScenario(e.target.value)}
+                  style={{ ...INPUT_STYLE, flex: 1 }}
+                >
+                  <option value="">— pick a board —</option>
+                  {scenarioOptions.map((o) => (
+                    <option key={o.id} value={o.id}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+
+                <Btn title="Load a scenario .json from disk" onClick={() => fileRef.current?.click()}>
+                  FILE
+                </Btn>
+
+                <input
+                  ref={fileRef}
+                  type="file"
+                  accept="application/json,.json"
+                  style={{ display: "none" }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = "";
+                    if (file) onLoadScenarioFile(file);
+                  }}
+                />
+              </div>
+            </div>
           </div>
-          <div style={{ display: "flex", gap: 8, flexWrap: "wrap"}}>
-            <Btn active={showGrid} color={SIM_COLOR} onClick={onToggleGrid}>
-              {showGrid ? "ON" : "OFF"}
+
+          {/* Layout generator: same generator + seed + count => same board anywhere */}
+          <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8 }}>
+            <span style={{ fontSize: 11, opacity: 0.75 }}>Layout</span>
+
+            <select
+              value={layout.generatorId}
+              onChange={(e) => onChangeLayout({ generatorId: e.target.value as LayoutGeneratorId })}
+              style={{ ...INPUT_STYLE, flex: 1 }}
+            >
+              {LAYOUT_GENERATORS.map((g) => (
+                <option key={g.id} value={g.id}>
+                  {g.label}
+                </option>
+              ))}
+            </select>
+
+            <input
+              type="number"
+              title="Seed"
+              value={layout.seed}
+              disabled={!usesSeed}
+              onChange={(e) => onChangeLayout({ seed: Math.floor(Number(e.target.value)) || 0 })}
+              style={{ ...INPUT_STYLE, width: 58, opacity: usesSeed ? 1 : 0.4 }}
+            />
+
+            <input
+              type="number"
+              title="Tower count"
+              min={0}
+              value={layout.count}
+              onChange={(e) =>
+                onChangeLayout({ count: Math.max(0, Math.floor(Number(e.target.value)) || 0) })
+              }
+              style={{ ...INPUT_STYLE, width: 42 }}
+            />
+
+            <Btn title="Regenerate towers on the current grid" onClick={onGenerateLayout}>
+              GO
             </Btn>
           </div>
+
+          {/* Route planner for MOVE_TO (applies from the next move) */}
+          <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8 }}>
+            <span style={{ fontSize: 11, opacity: 0.75 }}>Path</span>
+
+            <select
+              value={pathAlgorithm}
+              onChange={(e) => onSetPathAlgorithm(e.target.value as PathAlgorithm)}
+              style={{ ...INPUT_STYLE, flex: 1 }}
+            >
+              {PLANNER_REGISTRY.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.label}
+                </option>
+              ))}
+            </select>
+
+            {planning ? (
+              <span
+                title="The next move is being planned off the render thread"
+                style={{ fontSize: 11, color: "#e0c02a", whiteSpace: "nowrap" }}
+              >
+                planning…
+              </span>
+            ) : (
+              searchStats && (
+                <span
+                  title="Nodes expanded for the hovered route (this planner vs BFS)"
+                  style={{ fontSize: 11, opacity: 0.75, whiteSpace: "nowrap" }}
+                >
+                  {searchStats.expanded} vs BFS {searchStats.baseline}
+                </span>
+              )
+            )}
+          </div>
+
+          {/* ✅ inline validation error / goal progress */}
+          {status && (
+            <div
+              title={status.text}
+              style={{
+                marginTop: 6,
+                fontSize: 11,
+                color: status.color,
+                whiteSpace: "nowrap",
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+              }}
+            >
+              {status.text}
+            </div>
+          )}
         </div>
 
         {/* Row 3: Sim + World containers */}
@@ -0,0 +1,63 @@
+// src/app/ui/DebugPanel.tsx
+import { useEffect, useState } from "react";
+import type { PathCacheStats } from "../world/pathfinding/pathCache";
+import "../styles/globals.css";
+
+export type DebugPanelProps = {
+  getPathCacheStats: () => PathCacheStats; // plan worker's (live) or the replay kernel's
+  planThread: "worker" | "in-thread"; // where that kernel's runner plans
+};
+
+const sameStats = (a: PathCacheStats, b: PathCacheStats) =>
+  a.hits === b.hits && a.misses === b.misses && a.evictions === b.evictions && a.size === b.size;
+
+export default function DebugPanel({ getPathCacheStats, planThread }: DebugPanelProps) {
+  const [stats, setStats] = useState<PathCacheStats>(() => getPathCacheStats());
+
+  // Counters move on hover without a store publish, so poll once per frame like ClockPanel
+  useEffect(() => {
+    let raf = 0;
+
+    const loop = () => {
+      const next = getPathCacheStats();
+      setStats((prev) => (sameStats(prev, next) ? prev : next));
+      raf = requestAnimationFrame(loop);
+    };
+
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [getPathCacheStats]);
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? `${Math.round((stats.hits / lookups) * 100)}%` : "—";
+
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Debug</div>
+
+      <div className="side-row">
+        <span>
+          <strong>Path cache</strong>: {stats.size} / {stats.capacity}
+        </span>
+        <span>
+          <strong>Hits</strong>: {stats.hits}
+        </span>
+        <span>
+          <strong>Misses</strong>: {stats.misses}
+        </span>
+        <span>
+          <strong>Hit rate</strong>: {hitRate}
+        </span>
+        <span>
+          <strong>Evicted</strong>: {stats.evictions}
+        </span>
+      </div>
+
+      <div className="side-row">
+        <span>
+          <strong>Planner thread</strong>: {planThread}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// src/app/ui/EventLog.tsx
+import type { CommandResult } from "../world/sim/commands";
+import { describeResult } from "../world/sim/commands";
+import "../styles/globals.css";
+
+export type EventLogProps = {
+  entries: readonly CommandResult[]; // newest first
+  tickRate: number;
+};
+
+function fmtSimTime(tick: number, tickRate: number): string {
+  return `${(tick / tickRate).toFixed(2)}s`;
+}
+
+export default function EventLog({ entries, tickRate }: EventLogProps) {
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Event Log</div>
+
+      <div className="event-log">
+        {entries.length === 0 && <div className="event-log-empty">no commands yet</div>}
+
+        {entries.map((r, i) => (
+          <div
+            key={`${r.tick}-${i}`}
+            className={r.code === "OK" ? "event-log-row" : "event-log-row event-log-row-rejected"}
+          >
+            <span className="event-log-time">{fmtSimTime(r.tick, tickRate)}</span>
+            <span className="event-log-code">{r.code}</span>
+            <span>{describeResult(r)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+// src/app/ui/ExplainPanel.tsx
+import { useEffect, useRef, useState } from "react";
+import type { SearchTrace } from "../world/pathfinding/searchTrace";
+import { traceLength } from "../world/pathfinding/searchTrace";
+import "../styles/globals.css";
+
+export type ExplainPanelProps = {
+  armed: boolean; // next tile click traces a search instead of moving the dolly
+  trace: SearchTrace | null;
+  plannerLabel: string; // planner the trace was recorded with
+  frame: number;
+  disabled: boolean; // floor editing / replay
+  onArm: (armed: boolean) => void;
+  onSeek: (frame: number) => void;
+  onClear: () => void;
+};
+
+const RATES = [5, 20, 80, 320]; // frames per second
+
+export default function ExplainPanel({
+  armed,
+  trace,
+  plannerLabel,
+  frame,
+  disabled,
+  onArm,
+  onSeek,
+  onClear,
+}: ExplainPanelProps) {
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState(20);
+
+  const total = trace ? traceLength(trace) : 0;
+  const isPlaying = playing && frame < total;
+
+  // ✅ latest frame for the rAF loop without restarting it every frame
+  const frameRef = useRef(frame);
+  useEffect(() => {
+    frameRef.current = frame;
+  }, [frame]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let raf = 0;
+    let last = performance.now();
+    let carry = 0;
+
+    const loop = (now: number) => {
+      carry += ((now - last) / 1000) * rate;
+      last = now;
+      const n = Math.floor(carry);
+      if (n > 0) {
+        carry -= n;
+        onSeek(Math.min(total, frameRef.current + n));
+      }
+      raf = requestAnimationFrame(loop);
+    };
+
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [isPlaying, rate, total, onSeek]);
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setPlaying(false);
+      return;
+    }
+    if (frame >= total) onSeek(0); // replay from the top
+    setPlaying(true);
+  };
+
+  const searched = trace ? Math.min(frame, trace.steps.length) : 0;
+
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Explain path</div>
+
+      <div className="side-row">
+        <button
+          type="button"
+          className={armed ? "side-btn side-btn-active" : "side-btn"}
+          disabled={disabled}
+          onClick={() => onArm(!armed)}
+        >
+          TRACE
+        </button>
+
+        {trace && (
+          <>
+            <button type="button" className={isPlaying ? "side-btn side-btn-active" : "side-btn"} onClick={handlePlay}>
+              {isPlaying ? "PAUSE" : "PLAY"}
+            </button>
+            <button type="button" className="side-btn" onClick={() => onSeek(Math.max(0, frame - 1))}>
+              ◀
+            </button>
+            <button type="button" className="side-btn" onClick={() => onSeek(Math.min(total, frame + 1))}>
+              ▶
+            </button>
+            <select className="side-select" value={rate} onChange={(e) => setRate(Number(e.target.value))}>
+              {RATES.map((r) => (
+                <option key={r} value={r}>
+                  {r}/s
+                </option>
+              ))}
+            </select>
+            <button type="button" className="side-btn" onClick={onClear}>
+              CLEAR
+            </button>
+          </>
+        )}
+      </div>
+
+      {armed && <div className="side-hint">click a tile to trace a search from the dolly</div>}
+
+      {trace && (
+        <>
+          <input
+            className="replay-scrubber"
+            type="range"
+            min={0}
+            max={total}
+            value={frame}
+            onChange={(e) => onSeek(Number(e.target.value))}
+          />
+
+          <div className="side-hint">
+            {plannerLabel}: expanded {searched} / {trace.steps.length}
+          </div>
+
+          {frame >= total && (
+            <div className={trace.result.path.length > 0 ? "side-hint" : "side-error"}>
+              {trace.result.path.length > 0
+                ? `path ${trace.result.path.length - 1} steps, cost ${trace.result.cost}`
+                : `no path: frontier ran dry after ${trace.steps.length} expansions`}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+// src/app/ui/FloorMaskPanel.tsx
+import type { TileMask } from "../world/grid/floorMask";
+import { DEFAULT_TILE_COST, MAX_TILE_COST } from "../world/grid/gridMath";
+import "../styles/globals.css";
+
+// Tile masks paint whole tiles; WALL toggles the grid line between two tiles;
+// COST paints the entry cost (`paintCost`) onto open tiles
+export type FloorTool = TileMask | "WALL" | "COST";
+
+export type FloorMaskPanelProps = {
+  tool: FloorTool | null; // null = not painting (clicks move the dolly)
+  blockedCount: number;
+  voidCount: number;
+  wallCount: number;
+  costCount: number;
+  paintCost: number;
+  error: string | null;
+  disabled: boolean; // busy runner / replay
+  onSelectTool: (tool: FloorTool | null) => void;
+  onChangePaintCost: (cost: number) => void;
+  onClear: () => void;
+};
+
+const TOOLS: ReadonlyArray<{ id: FloorTool; label: string; title: string }> = [
+  { id: "BLOCKED", label: "BLOCK", title: "Pillar / drain: floor stays, nothing passes" },
+  { id: "VOID", label: "VOID", title: "No floor: tile is removed from the outline" },
+  { id: "OPEN", label: "OPEN", title: "Restore a plain floor tile" },
+  { id: "WALL", label: "WALL", title: "Rail / fence: click a grid line to add or remove it" },
+  { id: "COST", label: "COST", title: "Slow zone / ramp: weight tiles for Dijkstra / A* / HPA*" },
+];
+
+export default function FloorMaskPanel({
+  tool,
+  blockedCount,
+  voidCount,
+  wallCount,
+  costCount,
+  paintCost,
+  error,
+  disabled,
+  onSelectTool,
+  onChangePaintCost,
+  onClear,
+}: FloorMaskPanelProps) {
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Floor mask</div>
+
+      <div className="side-row">
+        {TOOLS.map((t) => (
+          <button
+            key={t.id}
+            type="button"
+            className={tool === t.id ? "side-btn side-btn-active" : "side-btn"}
+            title={t.title}
+            disabled={disabled}
+            onClick={() => onSelectTool(tool === t.id ? null : t.id)}
+          >
+            {t.label}
+          </button>
+        ))}
+
+        <button
+          type="button"
+          className="side-btn"
+          disabled={disabled || blockedCount + voidCount + wallCount + costCount === 0}
+          onClick={onClear}
+        >
+          CLEAR
+        </button>
+      </div>
+
+      {tool === "COST" && (
+        <div className="side-row">
+          <label className="side-field">
+            cost
+            <select
+              className="side-select"
+              value={paintCost}
+              onChange={(e) => onChangePaintCost(Number(e.target.value))}
+            >
+              {Array.from({ length: MAX_TILE_COST }, (_, i) => i + 1).map((c) => (
+                <option key={c} value={c}>
+                  {c === DEFAULT_TILE_COST ? `${c} (clear)` : c}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="side-hint">
+        {tool === "WALL"
+          ? "click grid lines to toggle walls (click WALL again to stop)"
+          : tool
+            ? `click tiles to paint ${tool.toLowerCase()} (click the tool again to stop)`
+            : `${blockedCount} blocked, ${voidCount} void, ${wallCount} walls, ${costCount} weighted`}
+      </div>
+
+      {error && <div className="side-error">{error}</div>}
+    </div>
+  );
+}
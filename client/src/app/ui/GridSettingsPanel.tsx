@@ -0,0 +1,105 @@
+// src/app/ui/GridSettingsPanel.tsx
+import { useState } from "react";
+import type { GridConfig } from "../world/grid/gridTypes";
+import type { GridSize, ResizePolicy } from "../world/grid/resizeGrid";
+import { GRID_LIMITS } from "../world/grid/resizeGrid";
+import "../styles/globals.css";
+
+export type GridSettingsPanelProps = {
+  grid: GridConfig;
+  disabled: boolean; // busy runner / replay
+  onApply: (size: GridSize, policy: ResizePolicy) => { relocated: number; culled: number };
+};
+
+export default function GridSettingsPanel({ grid, disabled, onApply }: GridSettingsPanelProps) {
+  // draft values; the grid itself only changes on APPLY
+  const [rows, setRows] = useState(grid.rows);
+  const [cols, setCols] = useState(grid.cols);
+  const [tileSize, setTileSize] = useState(grid.tileSize);
+  const [policy, setPolicy] = useState<ResizePolicy>("RELOCATE");
+  const [summary, setSummary] = useState<string | null>(null);
+
+  // ✅ re-sync the draft when the grid is replaced from elsewhere (scenario, snapshot, link)
+  const [syncedGrid, setSyncedGrid] = useState(grid);
+  if (syncedGrid !== grid) {
+    setSyncedGrid(grid);
+    setRows(grid.rows);
+    setCols(grid.cols);
+    setTileSize(grid.tileSize);
+  }
+
+  const unchanged = rows === grid.rows && cols === grid.cols && tileSize === grid.tileSize;
+
+  const handleApply = () => {
+    const { relocated, culled } = onApply({ rows, cols, tileSize }, policy);
+    setSummary(
+      relocated + culled === 0
+        ? "all towers fit"
+        : `${relocated} tower(s) relocated, ${culled} removed`
+    );
+  };
+
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Grid</div>
+
+      <div className="side-row">
+        <label className="side-field">
+          cols
+          <input
+            type="number"
+            min={GRID_LIMITS.minSide}
+            max={GRID_LIMITS.maxSide}
+            value={cols}
+            onChange={(e) => setCols(Number(e.target.value))}
+          />
+        </label>
+
+        <label className="side-field">
+          rows
+          <input
+            type="number"
+            min={GRID_LIMITS.minSide}
+            max={GRID_LIMITS.maxSide}
+            value={rows}
+            onChange={(e) => setRows(Number(e.target.value))}
+          />
+        </label>
+
+        <label className="side-field">
+          tile
+          <input
+            type="number"
+            min={GRID_LIMITS.minTileSize}
+            max={GRID_LIMITS.maxTileSize}
+            step={0.25}
+            value={tileSize}
+            onChange={(e) => setTileSize(Number(e.target.value))}
+          />
+        </label>
+      </div>
+
+      <div className="side-row">
+        <select
+          className="side-select"
+          value={policy}
+          onChange={(e) => setPolicy(e.target.value as ResizePolicy)}
+        >
+          <option value="RELOCATE">relocate towers outside</option>
+          <option value="CULL">remove towers outside</option>
+        </select>
+
+        <button
+          type="button"
+          className="side-btn"
+          disabled={disabled || unchanged}
+          onClick={handleApply}
+        >
+          APPLY
+        </button>
+      </div>
+
+      {summary && <div className="side-hint">{summary}</div>}
+    </div>
+  );
+}
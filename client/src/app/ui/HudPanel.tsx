@@ -1,7 +1,10 @@
 // src/app/ui/HudPanel.tsx
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import type { GridConfig, Tile, Vec3 } from "../world/grid/gridTypes";
 import { tileToWorldCenter } from "../world/grid/gridMath";
+import type { DollySample } from "../../state/worldStore";
+import type { CommandResult, MacroProgress } from "../world/sim/commands";
+import { commandTile, describeResult } from "../world/sim/commands";
 import "../styles/globals.css";
 
 export type HudPanelProps = {
@@ -21,10 +24,27 @@ export type HudPanelProps = {
 
   // Path + timing
   path: readonly Tile[];
-  speed: number;
+  pathCost: number; // summed tile costs of `path` (equals steps on an unweighted grid)
+  maxSpeed: number;
+  sampleDolly: () => DollySample; // same trajectory the dolly + trail render from
 
   // ✅ NEW: chip history (App accumulates this)
   queueHistory: readonly string[];
+
+  // most recent command outcome (rejections explain "why didn't it lift?")
+  lastResult: CommandResult | null;
+
+  // pending work: queued commands + macro (SWAP) progress
+  pendingCount: number;
+  macro: MacroProgress | null;
+
+  // undo / redo (the only interactive bit of the HUD)
+  canUndo: boolean;
+  canRedo: boolean;
+  editMode: boolean; // instant snapshot restore instead of planned inverse moves
+  onUndo: () => void;
+  onRedo: () => void;
+  onToggleEditMode: () => void;
 };
 
 function fmtTile(t: Tile | null): string {
@@ -43,23 +63,10 @@ function fmtSecondsFloat(sec: number | null): string {
   return `${sec.toFixed(2)}s`;
 }
 
-function polylineLength(points: readonly Vec3[]): number {
-  if (points.length < 2) return 0;
-  let sum = 0;
-  for (let i = 0; i < points.length - 1; i++) {
-    const a = points[i];
-    const b = points[i + 1];
-    const dx = b.x - a.x;
-    const dy = b.y - a.y;
-    const dz = b.z - a.z;
-    sum += Math.sqrt(dx * dx + dy * dy + dz * dz);
-  }
-  return sum;
-}
-
 function chipClass(label: string): string {
   const key = label.toUpperCase();
 
+  if (key.startsWith("✕")) return "hud-chip hud-chip-rejected";
   if (key === "IDLE") return "hud-chip hud-chip-idle";
   if (key === "DONE") return "hud-chip hud-chip-done";
   if (key === "MOVE") return "hud-chip hud-chip-move";
@@ -79,8 +86,19 @@ export default function HudPanel({
   carrying,
   isMoving,
   path,
-  speed,
+  pathCost,
+  maxSpeed,
+  sampleDolly,
   queueHistory,
+  lastResult,
+  pendingCount,
+  macro,
+  canUndo,
+  canRedo,
+  editMode,
+  onUndo,
+  onRedo,
+  onToggleEditMode,
 }: HudPanelProps) {
   const dollyWorldFromTile = useMemo(
     () => tileToWorldCenter(dollyTile, grid),
@@ -88,47 +106,12 @@ export default function HudPanel({
   );
   const dollyPos = dollyWorldPos ?? dollyWorldFromTile;
 
-  const pathWorldLen = useMemo(() => {
-    if (path.length < 2) return 0;
-    const pts = path.map((t) => tileToWorldCenter(t, grid));
-    return polylineLength(pts);
-  }, [grid, path]);
-
-  const expectedEtaSeconds = useMemo(() => {
-    if (path.length < 2) return null;
-    if (speed <= 0) return null;
-    return pathWorldLen / speed;
-  }, [path.length, pathWorldLen, speed]);
-
   // --------------------------------------------
-  // ✅ Ticking ETA (counts down smoothly)
-  // We treat ETA as "expected" based on duration.
+  // ✅ Ticking ETA + live speed (from the motion trajectory)
+  // Sampled from the kernel, so it pauses/steps with the timeline.
   // --------------------------------------------
   const [etaTick, setEtaTick] = useState<number | null>(null);
-  const moveStartMsRef = useRef<number | null>(null);
-  const etaStartRef = useRef<number | null>(null);
-  const wasMovingRef = useRef(false);
-
-  useEffect(() => {
-    const movingNow = isMoving;
-    const movingBefore = wasMovingRef.current;
-
-    // Rising edge: start ticking
-    if (!movingBefore && movingNow) {
-      moveStartMsRef.current = performance.now();
-      etaStartRef.current = expectedEtaSeconds ?? 0;
-      setEtaTick(etaStartRef.current);
-    }
-
-    // Falling edge: snap to 0.00s
-    if (movingBefore && !movingNow) {
-      moveStartMsRef.current = null;
-      etaStartRef.current = null;
-      setEtaTick(0);
-    }
-
-    wasMovingRef.current = movingNow;
-  }, [isMoving, expectedEtaSeconds]);
+  const [speedTick, setSpeedTick] = useState(0);
 
   useEffect(() => {
     // Only tick while moving
@@ -137,24 +120,15 @@ export default function HudPanel({
     let raf = 0;
 
     const loop = () => {
-      const start = moveStartMsRef.current;
-      const base = etaStartRef.current;
-
-      if (start === null || base === null) {
-        setEtaTick(null);
-        return;
-      }
-
-      const elapsed = (performance.now() - start) / 1000;
-      const remaining = Math.max(0, base - elapsed);
-      setEtaTick(remaining);
-
+      const s = sampleDolly();
+      setEtaTick(s.etaSeconds);
+      setSpeedTick(s.speed);
       raf = requestAnimationFrame(loop);
     };
 
     raf = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(raf);
-  }, [isMoving]);
+  }, [isMoving, sampleDolly]);
 
   const pathNodes = path.length;
   const pathSteps = Math.max(0, pathNodes - 1);
@@ -193,16 +167,80 @@ export default function HudPanel({
 
       <div className="hud-row">
         <div className="hud-item">
-          <strong>Path</strong>: {pathSteps} steps ({pathNodes} nodes)
+          <strong>Path</strong>: {pathSteps} steps ({pathNodes} nodes), cost{" "}
+          {pathSteps > 0 ? pathCost.toFixed(1) : "—"}
         </div>
         <div className="hud-item">
-          <strong>Speed</strong>: {speed.toFixed(2)} u/s
+          <strong>Speed</strong>: {(isMoving ? speedTick : 0).toFixed(2)} /{" "}
+          {maxSpeed.toFixed(2)} u/s
         </div>
         <div className="hud-item">
           <strong>ETA</strong>: {fmtSecondsFloat(isMoving ? etaTick : 0)}
         </div>
       </div>
 
+      <div className="hud-row">
+        <div className="hud-item">
+          <strong>Pending</strong>: {pendingCount}
+        </div>
+        <div className="hud-item">
+          <strong>Macro</strong>:{" "}
+          {macro
+            ? `${macro.kind} ${fmtTile(commandTile(macro.command))} step ${Math.min(
+                macro.index,
+                macro.steps.length
+              )}/${macro.steps.length}`
+            : "—"}
+        </div>
+      </div>
+
+      <div className="hud-row">
+        <div className="hud-item">
+          <strong>History</strong>:
+          <button
+            type="button"
+            className="hud-btn"
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            onClick={onUndo}
+          >
+            UNDO
+          </button>
+          <button
+            type="button"
+            className="hud-btn"
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z / Ctrl+Y)"
+            onClick={onRedo}
+          >
+            REDO
+          </button>
+          <button
+            type="button"
+            className={editMode ? "hud-btn hud-btn-active" : "hud-btn"}
+            title="Edit mode: undo/redo restore snapshots instantly instead of queueing moves"
+            onClick={onToggleEditMode}
+          >
+            EDIT
+          </button>
+        </div>
+      </div>
+
+      <div className="hud-row">
+        <div className="hud-item">
+          <strong>Last</strong>:{" "}
+          {lastResult ? (
+            <span className={lastResult.code === "OK" ? undefined : "hud-no"}>
+              {lastResult.code === "OK"
+                ? describeResult(lastResult)
+                : `${lastResult.code} — ${describeResult(lastResult)}`}
+            </span>
+          ) : (
+            "—"
+          )}
+        </div>
+      </div>
+
       <div className="hud-row">
         <div className="hud-item hud-item-full">
           <strong>Queue</strong>:
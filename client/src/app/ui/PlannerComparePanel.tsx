@@ -0,0 +1,86 @@
+// src/app/ui/PlannerComparePanel.tsx
+import type { PathAlgorithm } from "../world/pathfinding/findPath";
+import { PLANNER_REGISTRY } from "../world/pathfinding/findPath";
+import "../styles/globals.css";
+
+// One planner's answer to the hovered query
+export type PlannerCompareRow = Readonly<{
+  id: PathAlgorithm;
+  color: string;
+  steps: number; // tiles moved; 0 when unreachable
+  turns: number;
+  cost: number; // Infinity when unreachable
+  expanded: number;
+}>;
+
+export type PlannerComparePanelProps = {
+  activeAlgorithm: PathAlgorithm;
+  compareAlgorithm: PathAlgorithm | null; // null = comparison off
+  rows: ReadonlyArray<PlannerCompareRow> | null; // null until a tile is hovered
+  onSelectCompare: (algorithm: PathAlgorithm | null) => void;
+};
+
+const shortLabel = (id: PathAlgorithm) =>
+  PLANNER_REGISTRY.find((e) => e.id === id)?.label.split(" (")[0] ?? id;
+
+export default function PlannerComparePanel({
+  activeAlgorithm,
+  compareAlgorithm,
+  rows,
+  onSelectCompare,
+}: PlannerComparePanelProps) {
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Compare planners</div>
+
+      <div className="side-row">
+        <label className="side-field">
+          {shortLabel(activeAlgorithm)} vs
+          <select
+            className="side-select"
+            value={compareAlgorithm ?? ""}
+            onChange={(e) => onSelectCompare((e.target.value || null) as PathAlgorithm | null)}
+          >
+            <option value="">off</option>
+            {PLANNER_REGISTRY.filter((e) => e.id !== activeAlgorithm).map((e) => (
+              <option key={e.id} value={e.id}>
+                {e.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {compareAlgorithm &&
+        (rows ? (
+          <table className="compare-table">
+            <thead>
+              <tr>
+                <th>planner</th>
+                <th>length</th>
+                <th>turns</th>
+                <th>cost</th>
+                <th>expanded</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.id}>
+                  <td>
+                    <span className="compare-swatch" style={{ background: r.color }} />
+                    {shortLabel(r.id)}
+                  </td>
+                  <td>{r.steps > 0 ? r.steps : "—"}</td>
+                  <td>{r.steps > 0 ? r.turns : "—"}</td>
+                  <td>{Number.isFinite(r.cost) ? r.cost : "—"}</td>
+                  <td>{r.expanded}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <div className="side-hint">hover a tile to plan a route with both</div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+// src/app/ui/ReplayPanel.tsx
+import { useEffect, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import type { ReplayLog } from "../world/sim/replayLog";
+import { parseReplayLog, serializeReplayLog } from "../world/sim/replayLog";
+import type { Timeline } from "../world/sim/timeline";
+import { downloadJson } from "./download";
+import "../styles/globals.css";
+
+export type ReplayPanelProps = {
+  timeline: Timeline; // clock of the store currently shown (live or replay)
+  replayLog: ReplayLog | null; // non-null while replaying
+  onExport: () => ReplayLog;
+  onLoad: (log: ReplayLog) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+};
+
+export default function ReplayPanel({
+  timeline,
+  replayLog,
+  onExport,
+  onLoad,
+  onSeek,
+  onExit,
+}: ReplayPanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tick, setTick] = useState(() => timeline.getClock().tick);
+  const [paused, setPaused] = useState(() => timeline.getClock().paused);
+
+  // ✅ follow the replay clock for the scrubber (same polling as ClockPanel)
+  useEffect(() => {
+    let raf = 0;
+
+    const loop = () => {
+      const clock = timeline.getClock();
+      setTick(clock.tick);
+      setPaused(clock.paused);
+      raf = requestAnimationFrame(loop);
+    };
+
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [timeline]);
+
+  const handleSave = () => {
+    const log = onExport();
+    downloadJson(`dolly-run-t${log.endTick}.json`, serializeReplayLog(log));
+  };
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow re-loading the same file
+    if (!file) return;
+
+    try {
+      onLoad(parseReplayLog(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const endTick = replayLog?.endTick ?? 0;
+
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">Replay</div>
+
+      <div className="side-row">
+        <button type="button" className="side-btn" disabled={replayLog !== null} onClick={handleSave}>
+          SAVE LOG
+        </button>
+
+        <button type="button" className="side-btn" onClick={() => fileRef.current?.click()}>
+          LOAD LOG
+        </button>
+
+        {replayLog && (
+          <button type="button" className="side-btn" onClick={onExit}>
+            EXIT REPLAY
+          </button>
+        )}
+
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={handleFile}
+        />
+      </div>
+
+      {error && <div className="side-error">{error}</div>}
+
+      {replayLog && (
+        <>
+          <div className="side-row">
+            <button
+              type="button"
+              className={paused ? "side-btn" : "side-btn side-btn-active"}
+              onClick={() => (paused ? timeline.resume() : timeline.pause())}
+            >
+              {paused ? "PLAY" : "PAUSE"}
+            </button>
+
+            <button type="button" className="side-btn" onClick={() => onSeek(0)}>
+              ⏮ START
+            </button>
+
+            <span>
+              <strong>Tick</strong>: {tick} / {endTick} ({replayLog.inputs.length} inputs)
+            </span>
+          </div>
+
+          <input
+            className="replay-scrubber"
+            type="range"
+            min={0}
+            max={Math.max(endTick, tick)}
+            value={tick}
+            onChange={(e) => onSeek(Number(e.target.value))}
+          />
+        </>
+      )}
+    </div>
+  );
+}
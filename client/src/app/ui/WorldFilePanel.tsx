@@ -0,0 +1,87 @@
+// src/app/ui/WorldFilePanel.tsx
+import { useEffect, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import "../styles/globals.css";
+
+export type WorldFilePanelProps = {
+  error: string | null; // last load failure (picker or drop)
+  onSave: () => void;
+  onLoadFile: (file: File) => void;
+  onCopyLink: (includeQueue: boolean) => Promise<void>;
+};
+
+const COPIED_FLASH_MS = 1500;
+
+export default function WorldFilePanel({
+  error,
+  onSave,
+  onLoadFile,
+  onCopyLink,
+}: WorldFilePanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [includeQueue, setIncludeQueue] = useState(false);
+  const [copied, setCopied] = useState<"OK" | "FAILED" | null>(null);
+
+  // ✅ short-lived "copied" feedback
+  useEffect(() => {
+    if (!copied) return;
+    const id = window.setTimeout(() => setCopied(null), COPIED_FLASH_MS);
+    return () => window.clearTimeout(id);
+  }, [copied]);
+
+  const handleCopy = () => {
+    onCopyLink(includeQueue).then(
+      () => setCopied("OK"),
+      () => setCopied("FAILED")
+    );
+  };
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // allow re-loading the same file
+    if (file) onLoadFile(file);
+  };
+
+  return (
+    <div className="side-panel">
+      <div className="side-panel-title">World File</div>
+
+      <div className="side-row">
+        <button type="button" className="side-btn" onClick={onSave}>
+          SAVE WORLD
+        </button>
+
+        <button type="button" className="side-btn" onClick={() => fileRef.current?.click()}>
+          LOAD WORLD
+        </button>
+
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={handleFile}
+        />
+      </div>
+
+      <div className="side-hint">…or drop a snapshot .json anywhere on the page</div>
+
+      <div className="side-row">
+        <button type="button" className="side-btn" onClick={handleCopy}>
+          {copied === "OK" ? "LINK COPIED" : copied === "FAILED" ? "IN ADDRESS BAR" : "COPY LINK"}
+        </button>
+
+        <label className="side-check">
+          <input
+            type="checkbox"
+            checked={includeQueue}
+            onChange={(e) => setIncludeQueue(e.target.checked)}
+          />
+          include queued commands
+        </label>
+      </div>
+
+      {error && <div className="side-error">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+// src/app/ui/download.ts
+
+/** Save text as a file via a temporary object URL. */
+export function downloadJson(filename: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,5 +1,6 @@
 // src/app/scenes/worldCams.ts
 import type { GridConfig, Tile, Vec3 } from "../../world/grid/gridTypes";
+import { DEFAULT_GRID } from "../../world/grid/gridTypes";
 import { tileToWorldCenter } from "../../world/grid/gridMath";
 
 export type TravelAxis = "X" | "Z";
@@ -26,6 +27,16 @@ export const WORLD_FAR = 500;
 // Height of the camera above the floor
 export const WORLD_CAM_Y = 16;
 
+/**
+ * Overview height for CENTER_OVERVIEW.
+ * WORLD_CAM_Y frames DEFAULT_GRID; larger floors scale up with their longest side.
+ */
+export function getOverviewHeight(grid: GridConfig): number {
+  const extent = Math.max(grid.cols, grid.rows) * grid.tileSize;
+  const defaultExtent = Math.max(DEFAULT_GRID.cols, DEFAULT_GRID.rows) * DEFAULT_GRID.tileSize;
+  return WORLD_CAM_Y * Math.max(1, extent / defaultExtent);
+}
+
 // How far outside the grid (in world units). Default: one tile outside.
 export const WORLD_RING_OFFSET_TILES = 1;
 
@@ -0,0 +1,81 @@
+//floorMask.ts
+//Rules layer: per-tile floor mask (open / blocked / void), boundary walls and tile costs
+//
+// The mask lives on GridConfig as sparse lists so a plain rectangle stays
+// `{ rows, cols, tileSize, origin }`. BLOCKED is floor with something on it
+// (pillar, drain); VOID is no floor at all (irregular outline). Walls sit on
+// the line between two tiles and only cut that one edge. Costs weight a tile
+// without closing it.
+
+import type { GridConfig, Tile } from "./gridTypes";
+import { toTileId } from "./gridTypes";
+import { DEFAULT_TILE_COST, isInBounds } from "./gridMath";
+import type { Edge } from "../pathfinding/neighbors";
+import { edgeKey } from "../pathfinding/neighbors";
+
+export type TileMask = "OPEN" | "BLOCKED" | "VOID";
+
+const hasTile = (tiles: ReadonlyArray<Tile> | undefined, tile: Tile) => {
+  const id = toTileId(tile);
+  return (tiles ?? []).some((t) => toTileId(t) === id);
+};
+
+export const tileMaskAt = (grid: GridConfig, tile: Tile): TileMask => {
+  if (hasTile(grid.voids, tile)) return "VOID";
+  if (hasTile(grid.blocked, tile)) return "BLOCKED";
+  return "OPEN";
+};
+
+/**
+ * New grid with `tile` set to `mask`. Returns the same grid object when nothing
+ * changes (out of bounds or already that mask), so callers can skip a rebuild.
+ * Empty lists are dropped rather than kept as [].
+ */
+export const paintTileMask = (grid: GridConfig, tile: Tile, mask: TileMask): GridConfig => {
+  if (!isInBounds(tile, grid) || tileMaskAt(grid, tile) === mask) return grid;
+
+  const id = toTileId(tile);
+  const { blocked = [], voids = [], ...rest } = grid;
+  const nextBlocked = blocked.filter((t) => toTileId(t) !== id);
+  const nextVoids = voids.filter((t) => toTileId(t) !== id);
+
+  if (mask === "BLOCKED") nextBlocked.push(tile);
+  if (mask === "VOID") nextVoids.push(tile);
+
+  return {
+    ...rest,
+    ...(nextBlocked.length > 0 ? { blocked: nextBlocked } : {}),
+    ...(nextVoids.length > 0 ? { voids: nextVoids } : {}),
+  };
+};
+
+/** Add the wall on `edge` if it is open, remove it if it is walled. */
+export const toggleWall = (grid: GridConfig, edge: Edge): GridConfig => {
+  const key = edgeKey(edge);
+  const { walls = [], ...rest } = grid;
+  const next = walls.some((w) => edgeKey(w) === key)
+    ? walls.filter((w) => edgeKey(w) !== key)
+    : [...walls, edge];
+
+  return { ...rest, ...(next.length > 0 ? { walls: next } : {}) };
+};
+
+/** Set the cost of entering `tile`; DEFAULT_TILE_COST removes the entry. */
+export const paintTileCost = (grid: GridConfig, tile: Tile, cost: number): GridConfig => {
+  if (!isInBounds(tile, grid)) return grid;
+
+  const id = toTileId(tile);
+  const { costs = [], ...rest } = grid;
+  const current = costs.find((c) => toTileId(c.tile) === id)?.cost ?? DEFAULT_TILE_COST;
+  if (current === cost) return grid;
+
+  const next = costs.filter((c) => toTileId(c.tile) !== id);
+  if (cost !== DEFAULT_TILE_COST) next.push({ tile, cost });
+  return { ...rest, ...(next.length > 0 ? { costs: next } : {}) };
+};
+
+/** Back to a plain rectangle: no blocked / void / weighted tiles, no walls. */
+export const clearFloorMask = (grid: GridConfig): GridConfig => {
+  if (!grid.blocked && !grid.voids && !grid.walls && !grid.costs) return grid;
+  return { rows: grid.rows, cols: grid.cols, tileSize: grid.tileSize, origin: grid.origin };
+};
@@ -1,6 +1,7 @@
 //gridMath.ts
 
 import type { GridConfig, Tile, TileId, Vec3 } from "./gridTypes";
+import { toTileId } from "./gridTypes";
 
 /**
  * Value equality for tiles (NOT reference equality).
@@ -22,6 +23,38 @@ export const isInBounds = (tile: Tile, grid: GridConfig): boolean => {
   );
 };
 
+/**
+ * Blocked tiles as a TileId set (empty when the grid declares none).
+ */
+export const buildBlockedSet = (grid: GridConfig): ReadonlySet<TileId> => {
+  return new Set((grid.blocked ?? []).map((t) => toTileId(t)));
+};
+
+/**
+ * Void tiles (holes in the floor outline) as a TileId set.
+ */
+export const buildVoidSet = (grid: GridConfig): ReadonlySet<TileId> => {
+  return new Set((grid.voids ?? []).map((t) => toTileId(t)));
+};
+
+/**
+ * Tiles nothing may stand on: blocked + void.
+ */
+export const buildClosedSet = (grid: GridConfig): ReadonlySet<TileId> => {
+  return new Set([...buildBlockedSet(grid), ...buildVoidSet(grid)]);
+};
+
+export const DEFAULT_TILE_COST = 1;
+export const MAX_TILE_COST = 9;
+
+/**
+ * Cost of entering a tile by id (DEFAULT_TILE_COST when unlisted).
+ */
+export const buildCostFn = (grid: GridConfig): ((id: TileId) => number) => {
+  const costs = new Map((grid.costs ?? []).map((c) => [toTileId(c.tile), c.cost]));
+  return (id) => costs.get(id) ?? DEFAULT_TILE_COST;
+};
+
 /**
  * Reverse of toTileId: "x:z" -> { x, z }
  */
@@ -7,24 +7,26 @@ import { edgesToAdjacency } from "../pathfinding/neighbors";
 
 export type Mode = "NORMAL" | "TRANSPORT";
 
+export const isEdgeOpen = (mode: Mode, e: Edge, towerSet: ReadonlySet<TileId>): boolean => {
+  const aIsTower = towerSet.has(e.a);
+  const bIsTower = towerSet.has(e.b);
+
+  if (mode === "TRANSPORT") {
+    // fully block tower tiles
+    return !aIsTower && !bIsTower;
+  }
+
+  // mode === "NORMAL"
+  if (e.axis === "Z") return true;           // Z always ok
+  return !aIsTower && !bIsTower;             // X blocked if either endpoint is tower
+};
+
 export const pruneEdgesForTowerModeBlocking = (
   mode: Mode,
   baseEdges: readonly Edge[],
   towerSet: ReadonlySet<TileId>
 ): Edge[] => {
-  return baseEdges.filter((e) => {
-    const aIsTower = towerSet.has(e.a);
-    const bIsTower = towerSet.has(e.b);
-
-    if (mode === "TRANSPORT") {
-      // fully block tower tiles
-      return !aIsTower && !bIsTower;
-    }
-
-    // mode === "NORMAL"
-    if (e.axis === "Z") return true;           // Z always ok
-    return !aIsTower && !bIsTower;             // X blocked if either endpoint is tower
-  });
+  return baseEdges.filter((e) => isEdgeOpen(mode, e, towerSet));
 };
 
 
@@ -14,11 +14,27 @@ export const toTowerId = (tileId: TileId): TowerId => `tower:${tileId}` as Tower
 export type DollyId = string & { readonly __brand: "DollyId" };
 export const DOLLY_ID = "dolly:main" as DollyId;
 
+export type Axis = "X" | "Z";
+
+// Boundary between two 4-adjacent tiles; built and normalized in pathfinding/neighbors.ts
+export type Edge = Readonly<{
+  a: TileId;
+  b: TileId;
+  axis: Axis;
+}>;
+
+// Cost of entering a tile (slow zone, ramp, congestion); unlisted tiles cost 1
+export type TileCost = Readonly<{ tile: Tile; cost: number }>;
+
 export interface GridConfig {
   rows: number;
   cols: number;
   tileSize: number;
   origin: Vec3;
+  blocked?: ReadonlyArray<Tile>; // impassable tiles: no edges in or out (pillars, drains)
+  voids?: ReadonlyArray<Tile>; // no floor at all: not drawn, not pickable, no edges
+  walls?: ReadonlyArray<Edge>; // barriers on a tile boundary (rails, fences): just that edge is cut
+  costs?: ReadonlyArray<TileCost>; // weighted tiles (BFS ignores them; the other planners route by cost)
 }
 
 export const DEFAULT_GRID: Readonly<GridConfig> = {
@@ -53,17 +69,3 @@ export type SimViewMode =
   | "START_FIXED"
   | "LEADING"
   | "TRAILING";
-
-export type WorldState = Readonly<{
-  grid: GridConfig;
-
-  towers: ReadonlyArray<Tower>;
-  startTile: Tile;
-  destinationTile: Tile | null;
-
-  path: Path;
-  dolly: DollyState;
-
-  simViewMode: SimViewMode;
-  worldCameraIndex: number;
-}>;
@@ -0,0 +1,162 @@
+//resizeGrid.ts
+//Rules layer: fit an existing world onto a differently sized grid
+
+import type { GridConfig, Tile, TileId, Tower, TowerId } from "./gridTypes";
+import { toTileId } from "./gridTypes";
+import { allTiles, buildClosedSet, isInBounds, parseTileId } from "./gridMath";
+
+export type GridSize = Readonly<{
+  rows: number;
+  cols: number;
+  tileSize: number;
+}>;
+
+/** RELOCATE moves out-of-bounds towers to the nearest free tile; CULL removes them. */
+export type ResizePolicy = "RELOCATE" | "CULL";
+
+// Smallest bay to largest hall we support
+export const GRID_LIMITS = {
+  minSide: 2,
+  maxSide: 64,
+  minTileSize: 0.25,
+  maxTileSize: 4,
+} as const;
+
+export type ResizeInput = Readonly<{
+  grid: GridConfig;
+  towers: ReadonlyArray<Tower>;
+  carrying: Tower | null;
+  dollyTile: Tile;
+}>;
+
+export type ResizeResult = Readonly<{
+  grid: GridConfig;
+  towers: Tower[];
+  carrying: Tower | null;
+  dollyTile: Tile;
+  relocated: TowerId[];
+  culled: TowerId[];
+}>;
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+/**
+ * Snap a requested size into GRID_LIMITS (integers for rows/cols).
+ */
+export const clampGridSize = (size: GridSize): GridSize => ({
+  rows: clamp(Math.round(size.rows) || GRID_LIMITS.minSide, GRID_LIMITS.minSide, GRID_LIMITS.maxSide),
+  cols: clamp(Math.round(size.cols) || GRID_LIMITS.minSide, GRID_LIMITS.minSide, GRID_LIMITS.maxSide),
+  tileSize: clamp(size.tileSize || 1, GRID_LIMITS.minTileSize, GRID_LIMITS.maxTileSize),
+});
+
+const clampTile = (t: Tile, grid: GridConfig): Tile => ({
+  x: clamp(t.x, 0, grid.cols - 1),
+  z: clamp(t.z, 0, grid.rows - 1),
+});
+
+/**
+ * Nearest tile (Manhattan) that passes `isFree`, ties broken row-major.
+ * Returns null when nothing on the grid is free.
+ */
+const nearestFree = (
+  from: Tile,
+  grid: GridConfig,
+  isFree: (id: TileId) => boolean
+): Tile | null => {
+  let best: Tile | null = null;
+  let bestD = Number.POSITIVE_INFINITY;
+
+  // allTiles is row-major, so strict < keeps the first tie
+  for (const t of allTiles(grid)) {
+    if (!isFree(toTileId(t))) continue;
+    const d = Math.abs(t.x - from.x) + Math.abs(t.z - from.z);
+    if (d < bestD) {
+      best = t;
+      bestD = d;
+    }
+  }
+  return best;
+};
+
+/**
+ * Resize the grid and make the world fit:
+ * - blocked / void / weighted tiles and walls outside the new bounds are dropped
+ * - the dolly is clamped to the nearest in-bounds (open) tile
+ * - towers outside are relocated or culled per policy; towers inside stay put
+ * - a carried tower's origin tile is clamped (it is only a label while carried)
+ */
+export const resizeWorld = (
+  input: ResizeInput,
+  size: GridSize,
+  policy: ResizePolicy
+): ResizeResult => {
+  const { rows, cols, tileSize } = clampGridSize(size);
+
+  const {
+    blocked: oldBlocked = [],
+    voids: oldVoids = [],
+    walls: oldWalls = [],
+    costs: oldCosts = [],
+    ...rest
+  } = input.grid;
+  const inside = (t: Tile) => t.x < cols && t.z < rows;
+  const keptBlocked = oldBlocked.filter(inside);
+  const keptVoids = oldVoids.filter(inside);
+  const keptWalls = oldWalls.filter((w) => inside(parseTileId(w.b))); // b is the far tile
+  const keptCosts = oldCosts.filter((c) => inside(c.tile));
+  const grid: GridConfig = {
+    ...rest,
+    rows,
+    cols,
+    tileSize,
+    ...(keptBlocked.length > 0 ? { blocked: keptBlocked } : {}),
+    ...(keptVoids.length > 0 ? { voids: keptVoids } : {}),
+    ...(keptWalls.length > 0 ? { walls: keptWalls } : {}),
+    ...(keptCosts.length > 0 ? { costs: keptCosts } : {}),
+  };
+
+  const closed = buildClosedSet(grid);
+
+  const clampedDolly = clampTile(input.dollyTile, grid);
+  const dollyTile = closed.has(toTileId(clampedDolly))
+    ? (nearestFree(clampedDolly, grid, (id) => !closed.has(id)) ?? clampedDolly)
+    : clampedDolly;
+
+  const occupied = new Set<TileId>([toTileId(dollyTile)]);
+  const towers: Tower[] = [];
+  const outside: Tower[] = [];
+
+  for (const t of input.towers) {
+    if (isInBounds(t.tile, grid) && !closed.has(toTileId(t.tile))) {
+      towers.push(t);
+      occupied.add(toTileId(t.tile));
+    } else {
+      outside.push(t);
+    }
+  }
+
+  const relocated: TowerId[] = [];
+  const culled: TowerId[] = [];
+
+  for (const t of outside) {
+    const target =
+      policy === "RELOCATE"
+        ? nearestFree(clampTile(t.tile, grid), grid, (id) => !closed.has(id) && !occupied.has(id))
+        : null;
+
+    if (!target) {
+      culled.push(t.id);
+      continue;
+    }
+
+    towers.push({ ...t, tile: target });
+    occupied.add(toTileId(target));
+    relocated.push(t.id);
+  }
+
+  const carrying = input.carrying
+    ? { ...input.carrying, tile: clampTile(input.carrying.tile, grid) }
+    : null;
+
+  return { grid, towers, carrying, dollyTile, relocated, culled };
+};
@@ -0,0 +1,121 @@
+//adjacencyBenchmark.ts
+//Full rebuild vs local patches for the NORMAL + TRANSPORT graphs under lift / drop
+//
+// Times the three ways the kernel can bring its per-mode graphs up to date
+// after a tower moves: rebuilding both from scratch, `setTower` on the one
+// flipped tile (LIFT / DROP), and `setTowers` diffing a whole new tower set
+// (instant undo, restore). `npm run bench -- adjacency`.
+
+import type { GridConfig, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { allTiles } from "../grid/gridMath";
+import type { Mode } from "../grid/gridRules";
+import { buildPrunedAdjacency } from "../grid/gridRules";
+import { createRng } from "../towers/seededRandom";
+import type { Adjacency } from "./bfs";
+import { createLiveAdjacency } from "./liveAdjacency";
+import { buildBaseEdges } from "./neighbors";
+
+export type AdjacencyBenchOptions = Readonly<{
+  size: number; // square grid side
+  towers: number; // towers placed before timing
+  moves: number; // each move = one lift + one drop
+  seed: number;
+}>;
+
+export type AdjacencyBenchResult = Readonly<{
+  tiles: number;
+  edges: number;
+  moves: number;
+  rebuildMs: number; // both modes rebuilt after every lift and every drop
+  patchMs: number; // both modes patched after every lift and every drop
+  diffMs: number; // both modes moved to each new tower set by setTowers
+  speedup: number;
+  identical: boolean; // patched and diffed graphs equal freshly rebuilt ones at the end
+}>;
+
+const DEFAULTS: AdjacencyBenchOptions = { size: 200, towers: 4000, moves: 50, seed: 1 };
+
+const MODES: readonly Mode[] = ["NORMAL", "TRANSPORT"];
+
+const sameAdjacency = (a: Adjacency, b: Adjacency, ids: readonly TileId[]) =>
+  ids.every((id) => a[id].length === b[id].length && a[id].every((n, i) => n === b[id][i]));
+
+export const benchmarkAdjacency = (
+  options: Partial<AdjacencyBenchOptions> = {}
+): AdjacencyBenchResult => {
+  const { size, towers, moves, seed } = { ...DEFAULTS, ...options };
+  const grid: GridConfig = { rows: size, cols: size, tileSize: 1, origin: { x: 0, y: 0, z: 0 } };
+  const baseEdges = buildBaseEdges(grid);
+  const ids = allTiles(grid).map(toTileId);
+
+  // same move script for both runs: pick a tower, lift it, drop it on a free tile
+  const rng = createRng(seed);
+  const shuffled = rng.shuffle(ids);
+  const initial = new Set(shuffled.slice(0, Math.min(towers, ids.length - 1)));
+  const script: { from: TileId; to: TileId }[] = [];
+  {
+    const occupied = new Set(initial);
+    const placed = [...initial];
+    for (let i = 0; i < moves; i++) {
+      const k = rng.int(placed.length);
+      const from = placed[k];
+      let to = ids[rng.int(ids.length)];
+      while (occupied.has(to)) to = ids[rng.int(ids.length)];
+      occupied.delete(from);
+      occupied.add(to);
+      placed[k] = to;
+      script.push({ from, to });
+    }
+  }
+
+  // 1) rebuild from scratch after every change
+  let towerSet = new Set(initial);
+  let t0 = performance.now();
+  for (const { from, to } of script) {
+    towerSet.delete(from);
+    for (const m of MODES) buildPrunedAdjacency(m, grid, baseEdges, towerSet);
+    towerSet.add(to);
+    for (const m of MODES) buildPrunedAdjacency(m, grid, baseEdges, towerSet);
+  }
+  const rebuildMs = performance.now() - t0;
+
+  // 2) patch the four-neighbourhood of the changed tile
+  const live = MODES.map((m) => createLiveAdjacency(m, grid, baseEdges, initial));
+  towerSet = new Set(initial);
+  t0 = performance.now();
+  for (const { from, to } of script) {
+    for (const g of live) g.setTower(from, false);
+    for (const g of live) g.setTower(to, true);
+    towerSet.delete(from);
+    towerSet.add(to);
+  }
+  const patchMs = performance.now() - t0;
+
+  // 3) hand over the whole next tower set and let the graph find what flipped
+  const diffed = MODES.map((m) => createLiveAdjacency(m, grid, baseEdges, initial));
+  const next = new Set(initial);
+  t0 = performance.now();
+  for (const { from, to } of script) {
+    next.delete(from);
+    for (const g of diffed) g.setTowers(next);
+    next.add(to);
+    for (const g of diffed) g.setTowers(next);
+  }
+  const diffMs = performance.now() - t0;
+
+  const identical = [...live, ...diffed].every((g) =>
+    sameAdjacency(g.adj, buildPrunedAdjacency(g.mode, grid, baseEdges, towerSet), ids)
+  );
+
+  return {
+    tiles: ids.length,
+    edges: baseEdges.length,
+    moves,
+    rebuildMs,
+    patchMs,
+    diffMs,
+    speedup: patchMs > 0 ? rebuildMs / patchMs : Number.POSITIVE_INFINITY,
+    identical,
+  };
+};
@@ -0,0 +1,85 @@
+//astar.ts
+//A* with a pluggable heuristic
+
+import type { Tile } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { createMinHeap } from "./binaryHeap";
+import type { PlanResult, Planner } from "./planner";
+import { noPath } from "./planner";
+import {
+  MAX_DEGREE,
+  getCostTable,
+  getIndexGraph,
+  indexToTile,
+  indexToTileId,
+  tileToIndex,
+  walkBackIndex,
+} from "./indexGraph";
+
+/**
+ * Estimated cost from `from` to `goal`. Must never overestimate the real cost
+ * (tile costs are >= 1, so Manhattan distance is safe) or paths stop being optimal.
+ */
+export type Heuristic = (from: Tile, goal: Tile) => number;
+
+export const manhattanHeuristic: Heuristic = (a, b) => Math.abs(a.x - b.x) + Math.abs(a.z - b.z);
+
+// A* with h = 0 expands exactly like Dijkstra (handy as a baseline)
+export const zeroHeuristic: Heuristic = () => 0;
+
+/**
+ * Ties on f = g + h go to the lower h (the node nearer the goal), then to the
+ * order nodes were discovered in, so equal-cost grids always give the same path.
+ */
+export const createAStarPlanner =
+  (heuristic: Heuristic): Planner =>
+  ({ adj, start, goal, costOf, tracer }): PlanResult => {
+    if (toTileId(start) === toTileId(goal)) return { path: [start], cost: 0, expanded: 0 };
+
+    const graph = getIndexGraph(adj);
+    const startIdx = tileToIndex(graph, start);
+    const goalIdx = tileToIndex(graph, goal);
+    if (startIdx < 0 || goalIdx < 0) return noPath(0);
+
+    const { neighbors, cols } = graph;
+    const cost = getCostTable(graph, costOf);
+    const g = new Float64Array(graph.size).fill(Number.POSITIVE_INFINITY);
+    const cameFrom = new Int32Array(graph.size).fill(-1);
+    const closed = new Uint8Array(graph.size);
+    const heap = createMinHeap<number>();
+
+    g[startIdx] = 0;
+    const h0 = heuristic(start, goal);
+    heap.push(startIdx, h0, h0);
+
+    let expanded = 0;
+    while (heap.size() > 0) {
+      const current = heap.pop() as number;
+      if (closed[current]) continue; // stale entry
+      closed[current] = 1;
+      expanded++;
+      tracer?.expand(indexToTileId(current, cols));
+
+      if (current === goalIdx) {
+        return { path: walkBackIndex(cameFrom, startIdx, goalIdx, cols), cost: g[goalIdx], expanded };
+      }
+
+      const gc = g[current];
+      for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+        const next = neighbors[k];
+        if (next < 0 || closed[next]) continue;
+        const ng = gc + cost[next];
+        if (ng < g[next]) {
+          g[next] = ng;
+          cameFrom[next] = current;
+          tracer?.discover(indexToTileId(next, cols), indexToTileId(current, cols));
+          const h = heuristic(indexToTile(next, cols), goal);
+          heap.push(next, ng + h, h);
+        }
+      }
+    }
+
+    return noPath(expanded);
+  };
+
+export const astarPlanner: Planner = createAStarPlanner(manhattanHeuristic);
@@ -2,61 +2,76 @@
 
 import type { Tile, TileId } from "../grid/gridTypes";
 import { toTileId } from "../grid/gridTypes";
-import { parseTileId } from "../grid/gridMath";
+import type { PlanResult, Planner, SearchTracer } from "./planner";
+import { noPath, pathCost } from "./planner";
+import {
+  MAX_DEGREE,
+  createIndexQueue,
+  getIndexGraph,
+  indexToTileId,
+  tileToIndex,
+  walkBackIndex,
+} from "./indexGraph";
 
 export type Adjacency = Record<TileId, TileId[]>;
 
-export const bfsPath = (
+type BfsSearch = Readonly<{ path: Tile[]; expanded: number }>;
+
+const bfsSearch = (
   adj: Adjacency,
   start: Tile,
-  goal: Tile
-): Tile[] => {
-  const startId = toTileId(start);
-  const goalId = toTileId(goal);
-
+  goal: Tile,
+  tracer?: SearchTracer
+): BfsSearch => {
   // trivial case
-  if (startId === goalId) return [start];
+  if (toTileId(start) === toTileId(goal)) return { path: [start], expanded: 0 };
+
+  const g = getIndexGraph(adj);
+  const startIdx = tileToIndex(g, start);
+  const goalIdx = tileToIndex(g, goal);
+  if (startIdx < 0 || goalIdx < 0) return { path: [], expanded: 0 };
 
-  const queue: TileId[] = [startId];
-  const visited = new Set<TileId>([startId]);
+  const { neighbors, cols } = g;
+  const cameFrom = new Int32Array(g.size).fill(-1);
+  const visited = new Uint8Array(g.size);
+  const queue = createIndexQueue(g.size); // every tile is queued at most once
 
-  const cameFrom: Record<TileId, TileId | null> = {} as Record<TileId, TileId | null>;
-  cameFrom[startId] = null;
+  visited[startIdx] = 1;
+  queue.push(startIdx);
 
-  while (queue.length > 0) {
-    const current = queue.shift() as TileId;
+  let expanded = 0;
+  while (queue.size() > 0) {
+    const current = queue.shift();
+    expanded++;
+    tracer?.expand(indexToTileId(current, cols));
 
     // found goal
-    if (current === goalId) {
-      return reconstructPath(cameFrom, goalId).map(parseTileId);
+    if (current === goalIdx) {
+      return { path: walkBackIndex(cameFrom, startIdx, goalIdx, cols), expanded };
     }
 
-    const neighbors = adj[current] ?? [];
-
-    for (const next of neighbors) {
-      if (visited.has(next)) continue;
-      visited.add(next);
+    for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+      const next = neighbors[k];
+      if (next < 0 || visited[next]) continue;
+      visited[next] = 1;
       cameFrom[next] = current;
+      tracer?.discover(indexToTileId(next, cols), indexToTileId(current, cols));
       queue.push(next);
     }
   }
 
   // unreachable
-  return [];
+  return { path: [], expanded };
 };
 
-const reconstructPath = (
-  cameFrom: Record<TileId, TileId | null>,
-  goalId: TileId
-): TileId[] => {
-  const path: TileId[] = [];
-  let cur: TileId | null = goalId;
-
-  while (cur !== null) {
-    path.push(cur);
-    cur = cameFrom[cur] ?? null;
-  }
+export const bfsPath = (
+  adj: Adjacency,
+  start: Tile,
+  goal: Tile
+): Tile[] => bfsSearch(adj, start, goal).path;
 
-  path.reverse();
-  return path;
+/** Fewest steps; tile costs are ignored while searching but priced in the result. */
+export const bfsPlanner: Planner = ({ adj, start, goal, costOf, tracer }): PlanResult => {
+  const { path, expanded } = bfsSearch(adj, start, goal, tracer);
+  return path.length > 0 ? { path, cost: pathCost(path, costOf), expanded } : noPath(expanded);
 };
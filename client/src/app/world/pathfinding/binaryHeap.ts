@@ -0,0 +1,70 @@
+//binaryHeap.ts
+//Array-backed binary min-heap keyed by a numeric priority
+
+export type MinHeap<T> = Readonly<{
+  push: (item: T, priority: number, tiebreak?: number) => void;
+  pop: () => T | undefined; // lowest priority, then lowest tiebreak, then insertion order
+  size: () => number;
+}>;
+
+type Node<T> = { item: T; priority: number; tiebreak: number; seq: number };
+
+export const createMinHeap = <T>(): MinHeap<T> => {
+  const nodes: Node<T>[] = [];
+  let seq = 0;
+
+  // seq breaks remaining ties FIFO, so equal-cost results don't depend on heap shape
+  const less = (i: number, j: number) => {
+    const a = nodes[i];
+    const b = nodes[j];
+    if (a.priority !== b.priority) return a.priority < b.priority;
+    if (a.tiebreak !== b.tiebreak) return a.tiebreak < b.tiebreak;
+    return a.seq < b.seq;
+  };
+
+  const swap = (i: number, j: number) => {
+    const tmp = nodes[i];
+    nodes[i] = nodes[j];
+    nodes[j] = tmp;
+  };
+
+  const siftUp = (i: number) => {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!less(i, parent)) return;
+      swap(i, parent);
+      i = parent;
+    }
+  };
+
+  const siftDown = (i: number) => {
+    for (;;) {
+      const l = 2 * i + 1;
+      const r = l + 1;
+      let min = i;
+      if (l < nodes.length && less(l, min)) min = l;
+      if (r < nodes.length && less(r, min)) min = r;
+      if (min === i) return;
+      swap(i, min);
+      i = min;
+    }
+  };
+
+  return {
+    push: (item, priority, tiebreak = 0) => {
+      nodes.push({ item, priority, tiebreak, seq: seq++ });
+      siftUp(nodes.length - 1);
+    },
+    pop: () => {
+      if (nodes.length === 0) return undefined;
+      const top = nodes[0];
+      const last = nodes.pop() as Node<T>;
+      if (nodes.length > 0) {
+        nodes[0] = last;
+        siftDown(0);
+      }
+      return top.item;
+    },
+    size: () => nodes.length,
+  };
+};
@@ -0,0 +1,69 @@
+//dijkstra.ts
+//Weighted shortest path: cost of a step = cost of the tile being entered
+
+import { toTileId } from "../grid/gridTypes";
+import { createMinHeap } from "./binaryHeap";
+import type { PlanResult, Planner } from "./planner";
+import { noPath } from "./planner";
+import {
+  MAX_DEGREE,
+  getCostTable,
+  getIndexGraph,
+  indexToTileId,
+  tileToIndex,
+  walkBackIndex,
+} from "./indexGraph";
+
+/**
+ * Dijkstra over `adj` with lazy deletion (stale heap entries are skipped).
+ */
+export const dijkstraPlanner: Planner = ({ adj, start, goal, costOf, tracer }): PlanResult => {
+  if (toTileId(start) === toTileId(goal)) return { path: [start], cost: 0, expanded: 0 };
+
+  const g = getIndexGraph(adj);
+  const startIdx = tileToIndex(g, start);
+  const goalIdx = tileToIndex(g, goal);
+  if (startIdx < 0 || goalIdx < 0) return noPath(0);
+
+  const { neighbors, cols } = g;
+  const cost = getCostTable(g, costOf);
+  const dist = new Float64Array(g.size).fill(Number.POSITIVE_INFINITY);
+  const cameFrom = new Int32Array(g.size).fill(-1);
+  const done = new Uint8Array(g.size);
+  const heap = createMinHeap<number>();
+
+  dist[startIdx] = 0;
+  heap.push(startIdx, 0);
+
+  let expanded = 0;
+  while (heap.size() > 0) {
+    const current = heap.pop() as number;
+    if (done[current]) continue; // stale entry
+    done[current] = 1;
+    expanded++;
+    tracer?.expand(indexToTileId(current, cols));
+
+    if (current === goalIdx) {
+      return {
+        path: walkBackIndex(cameFrom, startIdx, goalIdx, cols),
+        cost: dist[goalIdx],
+        expanded,
+      };
+    }
+
+    const d = dist[current];
+    for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+      const next = neighbors[k];
+      if (next < 0 || done[next]) continue;
+      const nd = d + cost[next];
+      if (nd < dist[next]) {
+        dist[next] = nd;
+        cameFrom[next] = current;
+        tracer?.discover(indexToTileId(next, cols), indexToTileId(current, cols));
+        heap.push(next, nd);
+      }
+    }
+  }
+
+  return noPath(expanded);
+};
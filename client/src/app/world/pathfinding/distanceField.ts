@@ -0,0 +1,182 @@
+//distanceField.ts
+//Single-source fields: one full search from a source answers every "distance to X" / "path to X"
+//
+// Hover previews and swap staging ask many questions from the same tile (the
+// dolly). A field runs the search once to exhaustion and keeps dist / parent /
+// pop order per tile; each answer is then O(path length). The latest field per
+// graph and kind is cached and rebuilt when the source moves, the graph is
+// patched (lift / drop) or the cost function changes.
+//
+// Fields replay exactly what the early-exit planner would do (same neighbour
+// order, same heap tie-breaks), so paths and expansion counts are identical.
+
+import type { Tile, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import type { Adjacency } from "./bfs";
+import { createMinHeap } from "./binaryHeap";
+import type { IndexGraph } from "./indexGraph";
+import {
+  MAX_DEGREE,
+  createIndexQueue,
+  getCostTable,
+  getIndexGraph,
+  tileToIndex,
+  walkBackIndex,
+} from "./indexGraph";
+import type { PlanResult } from "./planner";
+import { noPath, pathCost } from "./planner";
+
+/** STEPS = BFS (fewest steps), COST = Dijkstra (lowest entered-tile cost). */
+export type FieldKind = "STEPS" | "COST";
+
+export type DistanceField = Readonly<{
+  kind: FieldKind;
+  source: Tile;
+  /** Steps (STEPS) or cost (COST) to `tile`; Infinity when unreachable. */
+  distanceTo: (tile: Tile) => number;
+  /** source..tile inclusive; [] when unreachable. */
+  pathTo: (tile: Tile) => Tile[];
+  /** What the matching planner returns for source -> tile. */
+  planTo: (tile: Tile) => PlanResult;
+}>;
+
+type FieldData = Readonly<{
+  dist: Float64Array;
+  parent: Int32Array;
+  order: Int32Array; // pop index, -1 = never expanded
+  reached: number; // tiles expanded in total (the source's component)
+}>;
+
+const searchSteps = (g: IndexGraph, source: number): FieldData => {
+  const dist = new Float64Array(g.size).fill(Number.POSITIVE_INFINITY);
+  const parent = new Int32Array(g.size).fill(-1);
+  const order = new Int32Array(g.size).fill(-1);
+  const queue = createIndexQueue(g.size);
+
+  dist[source] = 0;
+  queue.push(source);
+
+  let popped = 0;
+  while (queue.size() > 0) {
+    const current = queue.shift();
+    order[current] = popped++;
+
+    for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+      const next = g.neighbors[k];
+      if (next < 0 || dist[next] !== Number.POSITIVE_INFINITY) continue;
+      dist[next] = dist[current] + 1;
+      parent[next] = current;
+      queue.push(next);
+    }
+  }
+  return { dist, parent, order, reached: popped };
+};
+
+const searchCost = (g: IndexGraph, source: number, cost: Float64Array): FieldData => {
+  const dist = new Float64Array(g.size).fill(Number.POSITIVE_INFINITY);
+  const parent = new Int32Array(g.size).fill(-1);
+  const order = new Int32Array(g.size).fill(-1);
+  const heap = createMinHeap<number>();
+
+  dist[source] = 0;
+  heap.push(source, 0);
+
+  let popped = 0;
+  while (heap.size() > 0) {
+    const current = heap.pop() as number;
+    if (order[current] >= 0) continue; // stale entry
+    order[current] = popped++;
+
+    for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+      const next = g.neighbors[k];
+      if (next < 0 || order[next] >= 0) continue;
+      const nd = dist[current] + cost[next];
+      if (nd < dist[next]) {
+        dist[next] = nd;
+        parent[next] = current;
+        heap.push(next, nd);
+      }
+    }
+  }
+  return { dist, parent, order, reached: popped };
+};
+
+const buildField = (
+  kind: FieldKind,
+  g: IndexGraph,
+  source: Tile,
+  costOf: (id: TileId) => number
+): DistanceField => {
+  const sourceIdx = tileToIndex(g, source);
+  const data =
+    sourceIdx < 0
+      ? null
+      : kind === "STEPS"
+        ? searchSteps(g, sourceIdx)
+        : searchCost(g, sourceIdx, getCostTable(g, costOf));
+
+  const indexOf = (tile: Tile) => {
+    const i = tileToIndex(g, tile);
+    return data && i >= 0 && data.order[i] >= 0 ? i : -1;
+  };
+
+  const distanceTo = (tile: Tile) => {
+    if (toTileId(tile) === toTileId(source)) return 0;
+    const i = indexOf(tile);
+    return i < 0 ? Number.POSITIVE_INFINITY : (data as FieldData).dist[i];
+  };
+
+  const pathTo = (tile: Tile): Tile[] => {
+    if (toTileId(tile) === toTileId(source)) return [source];
+    const i = indexOf(tile);
+    return i < 0 ? [] : walkBackIndex((data as FieldData).parent, sourceIdx, i, g.cols);
+  };
+
+  const planTo = (tile: Tile): PlanResult => {
+    if (toTileId(tile) === toTileId(source)) return { path: [source], cost: 0, expanded: 0 };
+    if (!data || tileToIndex(g, tile) < 0) return noPath(0);
+    const i = indexOf(tile);
+    // unreachable: the early-exit search would have drained the whole component
+    if (i < 0) return noPath(data.reached);
+
+    const path = pathTo(tile);
+    const { dist, order } = data;
+    return { path, cost: kind === "STEPS" ? pathCost(path, costOf) : dist[i], expanded: order[i] + 1 };
+  };
+
+  return { kind, source, distanceTo, pathTo, planTo };
+};
+
+// --------------------------
+// Cache: latest field per graph and kind
+// --------------------------
+
+type CacheEntry = Readonly<{
+  revision: number;
+  sourceId: TileId;
+  costOf: (id: TileId) => number;
+  field: DistanceField;
+}>;
+
+const cache = new WeakMap<IndexGraph, Partial<Record<FieldKind, CacheEntry>>>();
+
+export const getDistanceField = (
+  kind: FieldKind,
+  adj: Adjacency,
+  source: Tile,
+  costOf: (id: TileId) => number
+): DistanceField => {
+  const g = getIndexGraph(adj);
+  const sourceId = toTileId(source);
+
+  const byKind = cache.get(g) ?? {};
+  const hit = byKind[kind];
+  if (hit && hit.revision === g.revision && hit.sourceId === sourceId && hit.costOf === costOf) {
+    return hit.field;
+  }
+
+  const field = buildField(kind, g, source, costOf);
+  byKind[kind] = { revision: g.revision, sourceId, costOf, field };
+  cache.set(g, byKind);
+  return field;
+};
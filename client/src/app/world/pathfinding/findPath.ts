@@ -0,0 +1,64 @@
+//findPath.ts
+//Planner registry: every caller plans through the same Planner interface
+
+import type { Tile, TileId } from "../grid/gridTypes";
+import type { Adjacency } from "./bfs";
+import { bfsPlanner } from "./bfs";
+import { dijkstraPlanner } from "./dijkstra";
+import { astarPlanner, createAStarPlanner, zeroHeuristic } from "./astar";
+import { turnPlanner } from "./turnPlanner";
+import { hierarchicalPlanner } from "./hierarchical";
+import type { PlanResult, Planner } from "./planner";
+import type { FieldKind } from "./distanceField";
+import { getDistanceField } from "./distanceField";
+
+export type PathAlgorithm = "BFS" | "DIJKSTRA" | "ASTAR" | "ASTAR_ZERO" | "TURNS" | "HPA";
+
+export type PlannerEntry = Readonly<{
+  id: PathAlgorithm;
+  label: string;
+  color: string; // path overlay colour when planners are compared
+  planner: Planner;
+  field?: FieldKind; // single-source field that reproduces `planner` exactly, if any
+}>;
+
+// Order is the order shown in the UI
+export const PLANNER_REGISTRY: ReadonlyArray<PlannerEntry> = [
+  { id: "BFS", label: "BFS (fewest steps)", color: "#870fcc", planner: bfsPlanner, field: "STEPS" },
+  { id: "DIJKSTRA", label: "Dijkstra (lowest cost)", color: "#0fa3cc", planner: dijkstraPlanner, field: "COST" },
+  { id: "ASTAR", label: "A* Manhattan (lowest cost)", color: "#2fcc5a", planner: astarPlanner },
+  // same costs as Manhattan A*, expands like Dijkstra: the baseline for what the heuristic saves
+  {
+    id: "ASTAR_ZERO",
+    label: "A* zero heuristic (lowest cost)",
+    color: "#8fcc2f",
+    planner: createAStarPlanner(zeroHeuristic),
+  },
+  { id: "TURNS", label: "Fewest turns (cost + turn penalty)", color: "#e0882a", planner: turnPlanner },
+  { id: "HPA", label: "HPA* (hierarchical, near-optimal)", color: "#cc2f86", planner: hierarchicalPlanner },
+];
+
+export const DEFAULT_PATH_ALGORITHM: PathAlgorithm = "BFS";
+
+export const getPlannerEntry = (algorithm: PathAlgorithm): PlannerEntry =>
+  PLANNER_REGISTRY.find((e) => e.id === algorithm) as PlannerEntry;
+
+export const getPlanner = (algorithm: PathAlgorithm): Planner => getPlannerEntry(algorithm).planner;
+
+/**
+ * Plan with `algorithm`. Algorithms backed by a distance field answer from the
+ * cached field for `start` (one full search per start / graph patch), the rest
+ * search per query. Either way the result is what the planner itself returns.
+ */
+export const findPath = (
+  algorithm: PathAlgorithm,
+  adj: Adjacency,
+  start: Tile,
+  goal: Tile,
+  costOf: (id: TileId) => number
+): PlanResult => {
+  const entry = getPlannerEntry(algorithm);
+  return entry.field
+    ? getDistanceField(entry.field, adj, start, costOf).planTo(goal)
+    : entry.planner({ adj, start, goal, costOf });
+};
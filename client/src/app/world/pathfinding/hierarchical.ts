@@ -0,0 +1,473 @@
+//hierarchical.ts
+//HPA*: plan over an abstract graph of cluster entrances, refine only the clusters on the route
+//
+// The grid is cut into square clusters. Where two clusters touch, each run of
+// open crossings becomes one or two transition tiles; inside a cluster every
+// pair of transitions is joined by its shortest in-cluster route. A query links
+// start and goal into that graph, searches it with A*, then runs a tile-level
+// A* confined to the clusters the route passes through. Paths are near-optimal
+// (the corridor may miss a shortcut next to it), so on uniform floors they come
+// out at or just above BFS length.
+//
+// The abstraction is cached per index graph and follows live patches: nodes
+// re-synced since the last query only re-derive the clusters and borders they
+// touch.
+
+import type { Tile } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { createMinHeap } from "./binaryHeap";
+import type { PlanResult, Planner, SearchTracer } from "./planner";
+import { noPath } from "./planner";
+import type { IndexGraph } from "./indexGraph";
+import {
+  MAX_DEGREE,
+  getCostTable,
+  getIndexGraph,
+  indexToTile,
+  indexToTileId,
+  nodesSyncedSince,
+  tileToIndex,
+} from "./indexGraph";
+
+// 16×16 keeps refinement searches tiny while a 200×200 hall is still only ~160 clusters
+export const DEFAULT_CLUSTER_SIZE = 16;
+
+// an entrance at least this wide gets a transition at each end instead of one in the middle
+const WIDE_ENTRANCE = 6;
+
+export type HierarchicalOptions = Readonly<{
+  clusterSize: number; // cluster side in tiles
+}>;
+
+type Box = Readonly<{ x0: number; z0: number; w: number; h: number }>;
+
+type AbstractEdge = Readonly<{ to: number; cost: number }>;
+
+type Crossing = readonly [number, number]; // (tile in this cluster, tile across the border)
+
+type Hierarchy = {
+  readonly graph: IndexGraph;
+  readonly cost: Float64Array; // entry cost per tile (getCostTable)
+  readonly clusterSize: number;
+  readonly ccols: number;
+  readonly crows: number;
+  revision: number; // graph revision the clusters reflect
+  readonly borders: Crossing[][]; // [cluster * 2 + side], side 0 = east, 1 = south
+  readonly nodes: number[][]; // per cluster: its transition tiles, ascending
+  readonly intra: Map<number, AbstractEdge[]>[]; // per cluster: routes between its transitions
+  readonly inter: Map<number, number[]>; // transition tile -> partners across borders, ascending
+};
+
+// --------------------------
+// Geometry
+// --------------------------
+
+const boxOf = (h: Hierarchy, c: number): Box => {
+  const C = h.clusterSize;
+  const x0 = (c % h.ccols) * C;
+  const z0 = Math.floor(c / h.ccols) * C;
+  return { x0, z0, w: Math.min(C, h.graph.cols - x0), h: Math.min(C, h.graph.rows - z0) };
+};
+
+const clusterOf = (h: Hierarchy, i: number): number => {
+  const C = h.clusterSize;
+  const cols = h.graph.cols;
+  return Math.floor(Math.floor(i / cols) / C) * h.ccols + Math.floor((i % cols) / C);
+};
+
+/** Box-local index of tile `i`, or -1 outside the box. */
+const localIndex = (box: Box, i: number, cols: number): number => {
+  const x = (i % cols) - box.x0;
+  const z = Math.floor(i / cols) - box.z0;
+  return x >= 0 && z >= 0 && x < box.w && z < box.h ? z * box.w + x : -1;
+};
+
+const hasEdge = (g: IndexGraph, a: number, b: number): boolean => {
+  for (let k = a * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+    if (g.neighbors[k] === b) return true;
+  }
+  return false;
+};
+
+// --------------------------
+// In-cluster search
+// --------------------------
+
+type BoxSearch = Readonly<{
+  box: Box;
+  dist: Float64Array; // by box-local index
+  expanded: number;
+}>;
+
+/**
+ * Dijkstra from `source` that never leaves `box`. Forward distances are the cost
+ * of entering tiles after the source; reverse ones are the cost of walking from a
+ * tile to the source (adjacency is symmetric, only the charged tile differs).
+ */
+const searchBox = (
+  g: IndexGraph,
+  cost: Float64Array,
+  box: Box,
+  source: number,
+  reverse: boolean,
+  tracer?: SearchTracer
+): BoxSearch => {
+  const { neighbors, cols } = g;
+  const n = box.w * box.h;
+  const dist = new Float64Array(n).fill(Number.POSITIVE_INFINITY);
+  const closed = new Uint8Array(n);
+  const heap = createMinHeap<number>();
+
+  dist[localIndex(box, source, cols)] = 0;
+  heap.push(source, 0);
+
+  let expanded = 0;
+  while (heap.size() > 0) {
+    const current = heap.pop() as number;
+    const lc = localIndex(box, current, cols);
+    if (closed[lc]) continue; // stale entry
+    closed[lc] = 1;
+    expanded++;
+    tracer?.expand(indexToTileId(current, cols));
+
+    for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+      const next = neighbors[k];
+      if (next < 0) continue;
+      const ln = localIndex(box, next, cols);
+      if (ln < 0 || closed[ln]) continue;
+      const nd = dist[lc] + (reverse ? cost[current] : cost[next]);
+      if (nd < dist[ln]) {
+        dist[ln] = nd;
+        tracer?.discover(indexToTileId(next, cols), indexToTileId(current, cols));
+        heap.push(next, nd);
+      }
+    }
+  }
+
+  return { box, dist, expanded };
+};
+
+const distIn = (s: BoxSearch, i: number, cols: number): number => {
+  const l = localIndex(s.box, i, cols);
+  return l < 0 ? Number.POSITIVE_INFINITY : s.dist[l];
+};
+
+// --------------------------
+// Abstraction
+// --------------------------
+
+/**
+ * Transitions on one side of cluster `c`. A run of crossings only continues while
+ * both sides stay connected along the border, so every crossing in a run is
+ * reachable from its transition inside each cluster (walls can split a run).
+ */
+const scanBorder = (h: Hierarchy, c: number, side: 0 | 1): Crossing[] => {
+  const g = h.graph;
+  const cx = c % h.ccols;
+  const cz = Math.floor(c / h.ccols);
+  if (side === 0 ? cx + 1 >= h.ccols : cz + 1 >= h.crows) return [];
+
+  const box = boxOf(h, c);
+  const cols = g.cols;
+  const len = side === 0 ? box.h : box.w;
+  const here = (k: number) =>
+    side === 0 ? (box.z0 + k) * cols + box.x0 + box.w - 1 : (box.z0 + box.h - 1) * cols + box.x0 + k;
+  const across = (k: number) => (side === 0 ? here(k) + 1 : here(k) + cols);
+
+  const crossings: Crossing[] = [];
+  let runStart = -1;
+
+  const closeRun = (end: number) => {
+    const width = end - runStart;
+    const picks = width >= WIDE_ENTRANCE ? [runStart, end - 1] : [runStart + ((width - 1) >> 1)];
+    for (const k of picks) crossings.push([here(k), across(k)]);
+    runStart = -1;
+  };
+
+  for (let k = 0; k < len; k++) {
+    const open = hasEdge(g, here(k), across(k));
+    if (
+      runStart >= 0 &&
+      (!open || !hasEdge(g, here(k - 1), here(k)) || !hasEdge(g, across(k - 1), across(k)))
+    ) {
+      closeRun(k);
+    }
+    if (open && runStart < 0) runStart = k;
+  }
+  if (runStart >= 0) closeRun(len);
+
+  return crossings;
+};
+
+const sameCrossings = (a: readonly Crossing[], b: readonly Crossing[]) =>
+  a.length === b.length && a.every((p, i) => p[0] === b[i][0] && p[1] === b[i][1]);
+
+// Partner lists stay ascending, whatever order borders were (re)linked in: a patched
+// hierarchy must search exactly like a fresh one, or replays drift from live runs.
+const link = (h: Hierarchy, crossings: readonly Crossing[], present: boolean) => {
+  const edit = (a: number, b: number) => {
+    const list = h.inter.get(a) ?? [];
+    const next = present ? [...list, b].sort((x, y) => x - y) : list.filter((x) => x !== b);
+    if (next.length > 0) h.inter.set(a, next);
+    else h.inter.delete(a);
+  };
+  for (const [a, b] of crossings) {
+    edit(a, b);
+    edit(b, a);
+  }
+};
+
+const clusterNodes = (h: Hierarchy, c: number): number[] => {
+  const found = new Set<number>();
+  for (const [a] of h.borders[c * 2]) found.add(a);
+  for (const [a] of h.borders[c * 2 + 1]) found.add(a);
+  if (c % h.ccols > 0) for (const [, b] of h.borders[(c - 1) * 2]) found.add(b);
+  if (c >= h.ccols) for (const [, b] of h.borders[(c - h.ccols) * 2 + 1]) found.add(b);
+  return [...found].sort((a, b) => a - b);
+};
+
+const rebuildCluster = (h: Hierarchy, c: number) => {
+  const nodes = clusterNodes(h, c);
+  const box = boxOf(h, c);
+  const cols = h.graph.cols;
+  const intra = new Map<number, AbstractEdge[]>();
+
+  for (const u of nodes) {
+    const s = searchBox(h.graph, h.cost, box, u, false);
+    const edges: AbstractEdge[] = [];
+    for (const v of nodes) {
+      const d = distIn(s, v, cols);
+      if (v !== u && d < Number.POSITIVE_INFINITY) edges.push({ to: v, cost: d });
+    }
+    intra.set(u, edges);
+  }
+
+  h.nodes[c] = nodes;
+  h.intra[c] = intra;
+};
+
+const buildHierarchy = (g: IndexGraph, cost: Float64Array, clusterSize: number): Hierarchy => {
+  const ccols = Math.ceil(g.cols / clusterSize);
+  const crows = Math.ceil(g.rows / clusterSize);
+  const count = ccols * crows;
+  const h: Hierarchy = {
+    graph: g,
+    cost,
+    clusterSize,
+    ccols,
+    crows,
+    revision: g.revision,
+    borders: new Array<Crossing[]>(count * 2),
+    nodes: new Array<number[]>(count),
+    intra: new Array<Map<number, AbstractEdge[]>>(count),
+    inter: new Map(),
+  };
+
+  for (let c = 0; c < count; c++) {
+    for (const side of [0, 1] as const) {
+      const crossings = scanBorder(h, c, side);
+      h.borders[c * 2 + side] = crossings;
+      link(h, crossings, true);
+    }
+  }
+  for (let c = 0; c < count; c++) rebuildCluster(h, c);
+  return h;
+};
+
+/** Re-derive what the re-synced tiles can affect: their clusters and those clusters' four borders. */
+const patchHierarchy = (h: Hierarchy, changed: readonly number[]) => {
+  const dirty = new Set(changed.map((i) => clusterOf(h, i)));
+  const rebuild = new Set(dirty);
+
+  const borders = new Set<number>();
+  for (const c of dirty) {
+    borders.add(c * 2);
+    borders.add(c * 2 + 1);
+    if (c % h.ccols > 0) borders.add((c - 1) * 2);
+    if (c >= h.ccols) borders.add((c - h.ccols) * 2 + 1);
+  }
+
+  for (const b of borders) {
+    const c = b >> 1;
+    const side = (b & 1) as 0 | 1;
+    const next = scanBorder(h, c, side);
+    if (sameCrossings(h.borders[b], next)) continue;
+    link(h, h.borders[b], false);
+    link(h, next, true);
+    h.borders[b] = next;
+    rebuild.add(c);
+    rebuild.add(side === 0 ? c + 1 : c + h.ccols);
+  }
+
+  for (const c of rebuild) rebuildCluster(h, c);
+  h.revision = h.graph.revision;
+};
+
+const hierarchies = new WeakMap<IndexGraph, Hierarchy>();
+
+const getHierarchy = (g: IndexGraph, cost: Float64Array, clusterSize: number): Hierarchy => {
+  const hit = hierarchies.get(g);
+  if (hit && hit.cost === cost && hit.clusterSize === clusterSize) {
+    if (hit.revision === g.revision) return hit;
+    const changed = nodesSyncedSince(g, hit.revision);
+    if (changed) {
+      patchHierarchy(hit, changed);
+      return hit;
+    }
+  }
+
+  const h = buildHierarchy(g, cost, clusterSize);
+  hierarchies.set(g, h);
+  return h;
+};
+
+// --------------------------
+// Planner
+// --------------------------
+
+const manhattan = (a: Tile, b: Tile) => Math.abs(a.x - b.x) + Math.abs(a.z - b.z);
+
+/**
+ * Tile-level A* that only enters clusters in `corridor`. The abstract route lies
+ * inside it, so this is never worse than stitching the route's hops together, and
+ * it straightens the detours fixed transition tiles force on short hops.
+ */
+const searchCorridor = (
+  h: Hierarchy,
+  corridor: ReadonlySet<number>,
+  s: number,
+  t: number,
+  goal: Tile,
+  tracer?: SearchTracer
+): PlanResult => {
+  const { neighbors, cols, size } = h.graph;
+  const inCorridor = new Uint8Array(h.ccols * h.crows);
+  for (const c of corridor) inCorridor[c] = 1;
+  const g = new Float64Array(size).fill(Number.POSITIVE_INFINITY);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const heap = createMinHeap<number>();
+  const hOf = (i: number) => Math.abs((i % cols) - goal.x) + Math.abs(Math.floor(i / cols) - goal.z);
+  g[s] = 0;
+  heap.push(s, hOf(s), hOf(s));
+
+  let expanded = 0;
+  while (heap.size() > 0) {
+    const current = heap.pop() as number;
+    if (closed[current]) continue; // stale entry
+    closed[current] = 1;
+    expanded++;
+    tracer?.expand(indexToTileId(current, cols));
+
+    if (current === t) {
+      const path: Tile[] = [];
+      for (let i = t; i >= 0; i = cameFrom[i]) path.push(indexToTile(i, cols));
+      return { path: path.reverse(), cost: g[t], expanded };
+    }
+
+    const gc = g[current];
+    for (let k = current * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+      const next = neighbors[k];
+      if (next < 0 || closed[next] || !inCorridor[clusterOf(h, next)]) continue;
+      const ng = gc + h.cost[next];
+      if (ng < g[next]) {
+        g[next] = ng;
+        cameFrom[next] = current;
+        tracer?.discover(indexToTileId(next, cols), indexToTileId(current, cols));
+        const hn = hOf(next);
+        heap.push(next, ng + hn, hn);
+      }
+    }
+  }
+
+  return noPath(expanded);
+};
+
+/**
+ * `expanded` counts every node taken off a frontier during the query: the start
+ * and goal cluster searches, abstract nodes, and the corridor search.
+ */
+export const createHierarchicalPlanner =
+  ({ clusterSize }: HierarchicalOptions): Planner =>
+  ({ adj, start, goal, costOf, tracer }): PlanResult => {
+    if (toTileId(start) === toTileId(goal)) return { path: [start], cost: 0, expanded: 0 };
+
+    const graph = getIndexGraph(adj);
+    const s = tileToIndex(graph, start);
+    const t = tileToIndex(graph, goal);
+    if (s < 0 || t < 0) return noPath(0);
+
+    const { cols } = graph;
+    const h = getHierarchy(graph, getCostTable(graph, costOf), clusterSize);
+    const sc = clusterOf(h, s);
+    const tc = clusterOf(h, t);
+
+    // link start and goal into their clusters' transitions
+    const fwd = searchBox(graph, h.cost, boxOf(h, sc), s, false, tracer);
+    const rev = searchBox(graph, h.cost, boxOf(h, tc), t, true, tracer);
+    let expanded = fwd.expanded + rev.expanded;
+
+    const startEdges: AbstractEdge[] = [];
+    for (const v of h.nodes[sc]) {
+      const d = distIn(fwd, v, cols);
+      if (v !== s && d < Number.POSITIVE_INFINITY) startEdges.push({ to: v, cost: d });
+    }
+    if (sc === tc && distIn(fwd, t, cols) < Number.POSITIVE_INFINITY) {
+      startEdges.push({ to: t, cost: distIn(fwd, t, cols) });
+    }
+
+    const edgesOf = (n: number): AbstractEdge[] => {
+      const out = n === s ? [...startEdges] : [...(h.intra[clusterOf(h, n)].get(n) ?? [])];
+      for (const m of h.inter.get(n) ?? []) out.push({ to: m, cost: h.cost[m] });
+      if (n !== s && clusterOf(h, n) === tc) {
+        const d = distIn(rev, n, cols);
+        if (d < Number.POSITIVE_INFINITY) out.push({ to: t, cost: d });
+      }
+      return out;
+    };
+
+    // A* over transitions (hop costs are real route costs, so Manhattan stays admissible)
+    const g = new Map<number, number>([[s, 0]]);
+    const cameFrom = new Map<number, number>();
+    const closed = new Set<number>();
+    const heap = createMinHeap<number>();
+    const hOf = (i: number) => manhattan(indexToTile(i, cols), goal);
+    heap.push(s, hOf(s), hOf(s));
+
+    while (heap.size() > 0) {
+      const current = heap.pop() as number;
+      if (closed.has(current)) continue; // stale entry
+      closed.add(current);
+      expanded++;
+      tracer?.expand(indexToTileId(current, cols));
+
+      if (current === t) break;
+
+      const gc = g.get(current) as number;
+      for (const e of edgesOf(current)) {
+        if (closed.has(e.to)) continue;
+        const ng = gc + e.cost;
+        if (ng < (g.get(e.to) ?? Number.POSITIVE_INFINITY)) {
+          g.set(e.to, ng);
+          cameFrom.set(e.to, current);
+          tracer?.discover(indexToTileId(e.to, cols), indexToTileId(current, cols));
+          const hn = hOf(e.to);
+          heap.push(e.to, ng + hn, hn);
+        }
+      }
+    }
+
+    if (!closed.has(t)) return noPath(expanded);
+
+    // refine: A* over tiles, confined to the clusters the abstract route passes through
+    const corridor = new Set<number>([sc, tc]);
+    for (let n = t; n !== s; n = cameFrom.get(n) as number) corridor.add(clusterOf(h, n));
+
+    const refined = searchCorridor(h, corridor, s, t, goal, tracer);
+    expanded += refined.expanded;
+    return { ...refined, expanded };
+  };
+
+export const hierarchicalPlanner: Planner = createHierarchicalPlanner({
+  clusterSize: DEFAULT_CLUSTER_SIZE,
+});
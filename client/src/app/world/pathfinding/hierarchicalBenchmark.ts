@@ -0,0 +1,164 @@
+//hierarchicalBenchmark.ts
+//HPA* vs BFS on a large uniform-cost hall: path length stretch, timing, and local updates
+//
+// BFS gives the shortest step count, so it is the yardstick: how much longer
+// the abstract route plus corridor refinement comes out (stretch), what the
+// first query pays to build the cluster graph, and whether clusters patched
+// through a run of tower moves still answer like a fresh build. It also says
+// plainly which planner was faster per query: BFS over typed arrays is cheap, and
+// at the floor sizes the app allows (64×64 at most) it usually beats HPA*.
+// `npm run bench -- hierarchical`.
+
+import type { GridConfig, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { allTiles, buildCostFn, parseTileId } from "../grid/gridMath";
+import { buildPrunedAdjacency } from "../grid/gridRules";
+import { createRng } from "../towers/seededRandom";
+import { bfsPlanner } from "./bfs";
+import { DEFAULT_CLUSTER_SIZE, createHierarchicalPlanner } from "./hierarchical";
+import { createLiveAdjacency } from "./liveAdjacency";
+import { buildBaseEdges } from "./neighbors";
+import type { PlanResult } from "./planner";
+
+export type HierarchicalBenchOptions = Readonly<{
+  size: number; // square grid side
+  towers: number; // obstacles (TRANSPORT mode: tower tiles are fully blocked)
+  queries: number; // random start / goal pairs compared against BFS
+  moves: number; // lift + drop pairs patched in before the rebuild check
+  clusterSize: number;
+  tolerance: number; // accepted relative stretch over the BFS length (0.1 = 10%)
+  seed: number;
+}>;
+
+export type HierarchicalBenchResult = Readonly<{
+  tiles: number;
+  clusters: number;
+  queries: number;
+  reachable: number; // queries BFS could answer
+  reachabilityMismatches: number; // HPA* disagreed with BFS on reachability (should be 0)
+  exact: number; // same step count as BFS
+  meanStretch: number; // HPA* steps / BFS steps, averaged over reachable queries
+  maxStretch: number;
+  withinTolerance: boolean; // every reachable query within `tolerance` of BFS
+  firstQueryMs: number; // includes building the abstraction
+  bfsMs: number;
+  hpaMs: number;
+  speedup: number; // bfsMs / hpaMs: above 1 only when HPA* answered faster
+  verdict: string; // the same, in words
+  patchedMismatches: number; // queries whose path differs tile by tile from a fresh build (should be 0)
+  patchedMatchesRebuild: boolean; // after the moves, patched clusters give the same paths as a fresh build
+}>;
+
+const DEFAULTS: HierarchicalBenchOptions = {
+  size: 200,
+  towers: 8000,
+  queries: 200,
+  moves: 50,
+  clusterSize: DEFAULT_CLUSTER_SIZE,
+  tolerance: 0.1,
+  seed: 1,
+};
+
+const steps = (r: PlanResult) => r.path.length - 1;
+
+export const benchmarkHierarchical = (
+  options: Partial<HierarchicalBenchOptions> = {}
+): HierarchicalBenchResult => {
+  const { size, towers, queries, moves, clusterSize, tolerance, seed } = { ...DEFAULTS, ...options };
+  const grid: GridConfig = { rows: size, cols: size, tileSize: 1, origin: { x: 0, y: 0, z: 0 } };
+  const baseEdges = buildBaseEdges(grid);
+  const costOf = buildCostFn(grid);
+  const ids = allTiles(grid).map(toTileId);
+
+  const rng = createRng(seed);
+  const shuffled = rng.shuffle(ids);
+  const towerSet = new Set(shuffled.slice(0, Math.min(towers, ids.length - 2)));
+  const free = () => {
+    let id = ids[rng.int(ids.length)];
+    while (towerSet.has(id)) id = ids[rng.int(ids.length)];
+    return parseTileId(id);
+  };
+  const pairs = Array.from({ length: queries }, () => ({ start: free(), goal: free() }));
+
+  const live = createLiveAdjacency("TRANSPORT", grid, baseEdges, towerSet);
+  const hpa = createHierarchicalPlanner({ clusterSize });
+
+  // 1) first query pays for the abstraction
+  let t0 = performance.now();
+  hpa({ adj: live.adj, ...pairs[0], costOf });
+  const firstQueryMs = performance.now() - t0;
+
+  // 2) the same queries through BFS and HPA*
+  t0 = performance.now();
+  const bfs = pairs.map((p) => bfsPlanner({ adj: live.adj, ...p, costOf }));
+  const bfsMs = performance.now() - t0;
+
+  t0 = performance.now();
+  const hier = pairs.map((p) => hpa({ adj: live.adj, ...p, costOf }));
+  const hpaMs = performance.now() - t0;
+
+  let reachable = 0;
+  let reachabilityMismatches = 0;
+  let exact = 0;
+  let stretchSum = 0;
+  let maxStretch = 1;
+  pairs.forEach((_, i) => {
+    const a = bfs[i];
+    const b = hier[i];
+    if ((a.path.length > 0) !== (b.path.length > 0)) reachabilityMismatches++;
+    if (a.path.length === 0 || b.path.length === 0) return;
+
+    reachable++;
+    if (steps(a) === steps(b)) exact++;
+    const stretch = steps(a) > 0 ? steps(b) / steps(a) : 1;
+    stretchSum += stretch;
+    maxStretch = Math.max(maxStretch, stretch);
+  });
+
+  // 3) lift / drop towers (each query in between patches the touched clusters),
+  //    then compare with a planner built fresh on a rebuilt graph
+  const placed = [...towerSet];
+  for (let i = 0; i < moves; i++) {
+    const k = rng.int(placed.length);
+    let to: TileId = ids[rng.int(ids.length)];
+    while (towerSet.has(to)) to = ids[rng.int(ids.length)];
+    live.setTower(placed[k], false);
+    live.setTower(to, true);
+    towerSet.delete(placed[k]);
+    towerSet.add(to);
+    placed[k] = to;
+    hpa({ adj: live.adj, ...pairs[i % pairs.length], costOf });
+  }
+
+  const rebuilt = buildPrunedAdjacency("TRANSPORT", grid, baseEdges, towerSet);
+  const fresh = createHierarchicalPlanner({ clusterSize });
+  // exact tile sequences: a replay patches in a different order than the live
+  // worker did, and must still get the same path
+  const patchedMismatches = pairs.filter((p) => {
+    const a = hpa({ adj: live.adj, ...p, costOf }).path;
+    const b = fresh({ adj: rebuilt, ...p, costOf }).path;
+    return a.length !== b.length || a.some((t, i) => t.x !== b[i].x || t.z !== b[i].z);
+  }).length;
+
+  return {
+    tiles: ids.length,
+    clusters: Math.ceil(size / clusterSize) ** 2,
+    queries,
+    reachable,
+    reachabilityMismatches,
+    exact,
+    meanStretch: reachable > 0 ? stretchSum / reachable : 1,
+    maxStretch,
+    withinTolerance: maxStretch <= 1 + tolerance,
+    firstQueryMs,
+    bfsMs,
+    hpaMs,
+    speedup: hpaMs > 0 ? bfsMs / hpaMs : Number.POSITIVE_INFINITY,
+    verdict:
+      hpaMs < bfsMs
+        ? `HPA* ${(bfsMs / hpaMs).toFixed(2)}× faster than BFS per query`
+        : `HPA* ${(hpaMs / bfsMs).toFixed(2)}× slower than BFS per query`,
+    patchedMismatches,
+    patchedMatchesRebuild: patchedMismatches === 0,
+  };
+};
@@ -0,0 +1,174 @@
+//indexGraph.ts
+//Graph constructor: compact index form of an Adjacency for the search hot path
+//
+// Planners keep taking `Adjacency` (string TileIds) at the API boundary. The
+// first search on an adjacency object converts it once to tile indices
+// (z * cols + x) with fixed-width Int32Array neighbour slots and caches that
+// by object identity; searches then run on numbers only. A live adjacency that
+// is patched in place (liveAdjacency.ts) re-syncs the touched nodes.
+
+import type { Tile, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { parseTileId } from "../grid/gridMath";
+import type { Adjacency } from "./bfs";
+
+// 4-neighbourhood
+export const MAX_DEGREE = 4;
+
+export type IndexGraph = {
+  readonly cols: number;
+  readonly rows: number;
+  readonly size: number; // cols * rows
+  readonly neighbors: Int32Array; // MAX_DEGREE slots per tile, -1 = empty
+  revision: number; // bumped whenever a node is re-synced (cached fields key on it)
+};
+
+export const indexToTile = (i: number, cols: number): Tile => ({ x: i % cols, z: Math.floor(i / cols) });
+
+export const indexToTileId = (i: number, cols: number): TileId => toTileId(indexToTile(i, cols));
+
+/** Index of `tile`, or -1 when it lies outside the graph. */
+export const tileToIndex = (g: IndexGraph, tile: Tile): number =>
+  tile.x >= 0 && tile.z >= 0 && tile.x < g.cols && tile.z < g.rows ? tile.z * g.cols + tile.x : -1;
+
+const graphs = new WeakMap<Adjacency, IndexGraph>();
+
+const writeNode = (
+  g: IndexGraph,
+  i: number,
+  list: readonly TileId[],
+  indexOf: (id: TileId) => number
+) => {
+  const base = i * MAX_DEGREE;
+  if (list.length > MAX_DEGREE) throw new Error(`indexGraph: tile ${i} has ${list.length} neighbours`);
+
+  for (let k = 0; k < MAX_DEGREE; k++) {
+    const id = list[k];
+    g.neighbors[base + k] = id === undefined ? -1 : indexOf(id);
+  }
+};
+
+const parseIndex = (g: IndexGraph) => (id: TileId) => tileToIndex(g, parseTileId(id));
+
+/** Compact graph for `adj` (built on first use, then cached per adjacency object). */
+export const getIndexGraph = (adj: Adjacency): IndexGraph => {
+  const hit = graphs.get(adj);
+  if (hit) return hit;
+
+  // parse every key once; neighbour ids are then plain lookups
+  const ids = Object.keys(adj) as TileId[];
+  const tiles = ids.map(parseTileId);
+  let cols = 0;
+  let rows = 0;
+  for (const t of tiles) {
+    cols = Math.max(cols, t.x + 1);
+    rows = Math.max(rows, t.z + 1);
+  }
+
+  const size = cols * rows;
+  const g: IndexGraph = {
+    cols,
+    rows,
+    size,
+    neighbors: new Int32Array(size * MAX_DEGREE).fill(-1),
+    revision: 0,
+  };
+  const index = new Map<TileId, number>();
+  ids.forEach((id, k) => index.set(id, tiles[k].z * cols + tiles[k].x));
+
+  const fallback = parseIndex(g); // neighbour missing from the key set
+  const indexOf = (id: TileId) => index.get(id) ?? fallback(id);
+  for (const id of ids) writeNode(g, index.get(id) as number, adj[id], indexOf);
+
+  graphs.set(adj, g);
+  return g;
+};
+
+// Nodes re-synced since `from`, oldest first: entry k moved the revision to from + k + 1
+const journals = new WeakMap<IndexGraph, { from: number; nodes: number[] }>();
+
+// Plenty for a burst of lifts / drops (five nodes each); readers further behind rebuild
+const JOURNAL_LIMIT = 4096;
+
+/** Re-copy one node after `adj[id]` was replaced in place (no-op before first use). */
+export const syncIndexNode = (adj: Adjacency, id: TileId) => {
+  const g = graphs.get(adj);
+  if (!g) return;
+  const i = tileToIndex(g, parseTileId(id));
+  writeNode(g, i, adj[id], parseIndex(g));
+
+  let journal = journals.get(g);
+  if (!journal) {
+    journal = { from: g.revision, nodes: [] };
+    journals.set(g, journal);
+  }
+  journal.nodes.push(i);
+  g.revision++;
+
+  if (journal.nodes.length > JOURNAL_LIMIT) {
+    const drop = journal.nodes.length - JOURNAL_LIMIT / 2;
+    journal.nodes.splice(0, drop);
+    journal.from += drop;
+  }
+};
+
+/**
+ * Nodes re-synced after `revision` (repeats possible), for structures derived
+ * from a graph that patch themselves locally. Null when the journal no longer
+ * reaches back that far: rebuild from scratch.
+ */
+export const nodesSyncedSince = (g: IndexGraph, revision: number): readonly number[] | null => {
+  if (revision === g.revision) return [];
+  const journal = journals.get(g);
+  if (!journal || revision < journal.from) return null;
+  return journal.nodes.slice(revision - journal.from);
+};
+
+// --------------------------
+// Per-search helpers
+// --------------------------
+
+const costTables = new WeakMap<IndexGraph, { costOf: (id: TileId) => number; table: Float64Array }>();
+
+/** Entry cost per tile index (cached while the graph and cost function stay the same). */
+export const getCostTable = (g: IndexGraph, costOf: (id: TileId) => number): Float64Array => {
+  const hit = costTables.get(g);
+  if (hit && hit.costOf === costOf) return hit.table;
+
+  const table = new Float64Array(g.size);
+  for (let i = 0; i < g.size; i++) table[i] = costOf(indexToTileId(i, g.cols));
+  costTables.set(g, { costOf, table });
+  return table;
+};
+
+/** Fixed-capacity FIFO of tile indices over a ring buffer. */
+export const createIndexQueue = (capacity: number) => {
+  const items = new Int32Array(Math.max(1, capacity));
+  let head = 0;
+  let length = 0;
+
+  return {
+    push: (i: number) => {
+      if (length === items.length) throw new Error("indexQueue: full");
+      items[(head + length) % items.length] = i;
+      length++;
+    },
+    shift: (): number => {
+      const i = items[head];
+      head = (head + 1) % items.length;
+      length--;
+      return i;
+    },
+    size: () => length,
+  };
+};
+
+/** start..goal tiles by walking an index `cameFrom` (-1 = none) back from the goal. */
+export const walkBackIndex = (cameFrom: Int32Array, start: number, goal: number, cols: number): Tile[] => {
+  const path: Tile[] = [];
+  for (let i = goal; ; i = cameFrom[i]) {
+    path.push(indexToTile(i, cols));
+    if (i === start) break;
+  }
+  return path.reverse();
+};
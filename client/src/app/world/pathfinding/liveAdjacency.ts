@@ -0,0 +1,85 @@
+//liveAdjacency.ts
+//Graph constructor: adjacency that follows tower changes with local patches
+//
+// A full rebuild prunes every base edge and allocates every neighbour list, so
+// each lift / drop costs O(tiles). A tower only ever changes the edges touching
+// its own tile, so we re-derive just that tile's list and its (at most four)
+// neighbours' lists. Lists are re-filtered from the base order, so a patched
+// graph is identical (neighbour order included) to a rebuilt one and BFS
+// tie-breaks don't depend on how the graph got there.
+
+import type { GridConfig, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { allTiles } from "../grid/gridMath";
+import type { Mode } from "../grid/gridRules";
+import { isEdgeOpen } from "../grid/gridRules";
+import type { Edge } from "./neighbors";
+import type { Adjacency } from "./bfs";
+import { syncIndexNode } from "./indexGraph";
+
+export type LiveAdjacency = Readonly<{
+  mode: Mode;
+  adj: Adjacency; // patched in place; identity is stable for the life of the graph
+  towerSet: () => ReadonlySet<TileId>;
+  /** Lift (false) or drop (true) one tower: patches at most five lists. */
+  setTower: (id: TileId, present: boolean) => void;
+  /** Move to a new tower set (undo, restore); returns how many tiles flipped. */
+  setTowers: (next: ReadonlySet<TileId>) => number;
+}>;
+
+export const createLiveAdjacency = (
+  mode: Mode,
+  grid: GridConfig,
+  baseEdges: readonly Edge[],
+  initialTowers: ReadonlySet<TileId>
+): LiveAdjacency => {
+  // incident base edges per tile, in the order edgesToAdjacency would emit them
+  const incident: Record<TileId, Edge[]> = {} as Record<TileId, Edge[]>;
+  const adj: Adjacency = {} as Adjacency;
+  for (const tile of allTiles(grid)) {
+    incident[toTileId(tile)] = [];
+  }
+  for (const e of baseEdges) {
+    incident[e.a].push(e);
+    incident[e.b].push(e);
+  }
+
+  let towers = new Set(initialTowers);
+
+  const rebuildList = (id: TileId) => {
+    const list: TileId[] = [];
+    for (const e of incident[id]) {
+      if (isEdgeOpen(mode, e, towers)) list.push(e.a === id ? e.b : e.a);
+    }
+    adj[id] = list;
+    syncIndexNode(adj, id); // keep the planners' compact copy in step
+  };
+
+  for (const id of Object.keys(incident) as TileId[]) rebuildList(id);
+
+  const patchTile = (id: TileId) => {
+    rebuildList(id);
+    for (const e of incident[id] ?? []) rebuildList(e.a === id ? e.b : e.a);
+  };
+
+  const setTower = (id: TileId, present: boolean) => {
+    if (towers.has(id) === present) return;
+    if (present) towers.add(id);
+    else towers.delete(id);
+    if (incident[id]) patchTile(id);
+  };
+
+  const setTowers = (next: ReadonlySet<TileId>): number => {
+    const flipped: TileId[] = [];
+    for (const id of towers) if (!next.has(id)) flipped.push(id); // lifted
+    for (const id of next) if (!towers.has(id)) flipped.push(id); // dropped
+
+    towers = new Set(next);
+    for (const id of flipped) {
+      if (incident[id]) patchTile(id);
+    }
+    return flipped.length;
+  };
+
+  return { mode, adj, towerSet: () => towers, setTower, setTowers };
+};
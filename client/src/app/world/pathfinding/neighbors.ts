@@ -1,36 +1,59 @@
 //neighbors.ts
 //Graph constructor
 
-import type { GridConfig, TileId } from "../grid/gridTypes";
+import type { Edge, GridConfig, Tile, TileId } from "../grid/gridTypes";
 import { toTileId } from "../grid/gridTypes";
-import { allTiles, isInBounds } from "../grid/gridMath";
+import { allTiles, buildClosedSet, isInBounds } from "../grid/gridMath";
 
-export type Axis = "X" | "Z";
-
-export type Edge = Readonly<{
-  a: TileId;
-  b: TileId;
-  axis: Axis;
-}>;
+export type { Axis, Edge } from "../grid/gridTypes";
 
 export type Adjacency = Readonly<Record<TileId, ReadonlyArray<TileId>>>;
 
+/**
+ * Normalized edge between two 4-adjacent tiles: `a` is the west / north tile,
+ * the same orientation buildBaseEdges emits. Null when the tiles don't touch.
+ */
+export const edgeBetween = (p: Tile, q: Tile): Edge | null => {
+  const dx = q.x - p.x;
+  const dz = q.z - p.z;
+  if (Math.abs(dx) + Math.abs(dz) !== 1) return null;
+
+  const [a, b] = dx < 0 || dz < 0 ? [q, p] : [p, q];
+  return { a: toTileId(a), b: toTileId(b), axis: dx !== 0 ? "X" : "Z" };
+};
+
+export const edgeKey = (e: Edge): string => `${e.a}|${e.b}`;
+
+/**
+ * Wall edges as a key set (empty when the grid declares none).
+ */
+export const buildWallSet = (grid: GridConfig): ReadonlySet<string> => {
+  return new Set((grid.walls ?? []).map(edgeKey));
+};
+
 export const buildBaseEdges = (grid: GridConfig): Edge[] => {
 
 const baseEdges: Edge[] = [];
+const closed = buildClosedSet(grid); // blocked + void tiles get no edges
+const walls = buildWallSet(grid); // ...and walled boundaries are cut
+const isOpen = (id: TileId) => !closed.has(id);
 
   for (const tile of allTiles(grid)) {
+    const id = toTileId(tile)
+    if (!isOpen(id)) continue;
+
     const east = {x: tile.x + 1, z: tile.z}
     const south = {x: tile.x, z: tile.z + 1}
     
-    if (isInBounds(east, grid)) {
-        baseEdges.push({a: toTileId(tile), b: toTileId(east), axis: "X"})
+    if (isInBounds(east, grid) && isOpen(toTileId(east))) {
+        const e: Edge = {a: id, b: toTileId(east), axis: "X"}
+        if (!walls.has(edgeKey(e))) baseEdges.push(e)
     }
-    if (isInBounds(south, grid)) {
-        baseEdges.push({a: toTileId(tile), b: toTileId(south), axis: "Z"})
+    if (isInBounds(south, grid) && isOpen(toTileId(south))) {
+        const e: Edge = {a: id, b: toTileId(south), axis: "Z"}
+        if (!walls.has(edgeKey(e))) baseEdges.push(e)
     }
   }
-  console.log(baseEdges)
   return baseEdges;
 };
 
@@ -0,0 +1,93 @@
+//pathCache.ts
+//Bounded LRU of plan results, keyed by obstacle fingerprint + mode + algorithm + endpoints
+//
+// Idle hovering asks the same questions over and over; so does the runner when
+// a queued MOVE_TO repeats a preview. The key names the obstacle set by a hash
+// of the tower tiles instead of an adjacency object, so any graph with the same
+// towers shares entries, whichever way it was built.
+
+import type { GridConfig, TileId } from "../grid/gridTypes";
+import type { PlanResult } from "./planner";
+
+// Enough for a long idle hover session on a 64×64 floor; entries are one path each
+export const PATH_CACHE_CAPACITY = 512;
+
+export type PathCacheStats = Readonly<{
+  hits: number;
+  misses: number;
+  evictions: number;
+  size: number;
+  capacity: number;
+}>;
+
+export type PathCache = Readonly<{
+  get: (key: string) => PlanResult | undefined;
+  set: (key: string, result: PlanResult) => void;
+  stats: () => PathCacheStats;
+}>;
+
+/** Map keeps insertion order, so the first key is always the least recently used. */
+export const createPathCache = (capacity: number = PATH_CACHE_CAPACITY): PathCache => {
+  const entries = new Map<string, PlanResult>();
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+
+  const get = (key: string) => {
+    const hit = entries.get(key);
+    if (hit === undefined) {
+      misses++;
+      return undefined;
+    }
+    hits++;
+    entries.delete(key); // refresh recency
+    entries.set(key, hit);
+    return hit;
+  };
+
+  const set = (key: string, result: PlanResult) => {
+    entries.delete(key);
+    entries.set(key, result);
+    while (entries.size > capacity) {
+      entries.delete(entries.keys().next().value as string);
+      evictions++;
+    }
+  };
+
+  const stats = (): PathCacheStats => ({ hits, misses, evictions, size: entries.size, capacity });
+
+  return { get, set, stats };
+};
+
+// 32-bit FNV-1a, continued from `h`
+const fnv1a = (s: string, h: number) => {
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/**
+ * Order-independent fingerprint of a tower set: two 32-bit hashes over the sorted
+ * tile ids, plus the count. Equal sets always match; distinct sets colliding on
+ * all three is not a practical concern at our sizes.
+ */
+export const obstacleFingerprint = (tiles: Iterable<TileId>): string => {
+  const sorted = [...tiles].sort();
+  const joined = sorted.join(",");
+  const a = fnv1a(joined, 0x811c9dc5);
+  const b = fnv1a(joined, 0x050c5d1f);
+  return `${sorted.length}.${a.toString(36)}.${b.toString(36)}`;
+};
+
+/**
+ * Fingerprint of everything else a plan depends on (size, floor mask, walls,
+ * costs), so planners for different worlds can share one cache.
+ */
+export const gridFingerprint = (grid: GridConfig): string => {
+  const json = JSON.stringify(grid);
+  const a = fnv1a(json, 0x811c9dc5);
+  const b = fnv1a(json, 0x050c5d1f);
+  return `${a.toString(36)}.${b.toString(36)}`;
+};
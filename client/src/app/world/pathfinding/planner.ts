@@ -0,0 +1,56 @@
+//planner.ts
+//Common planner interface: every search takes the same request and reports
+//path, cost and how many nodes it expanded (for comparing algorithms)
+
+import type { Tile, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import type { Adjacency } from "./bfs";
+
+export type PlanRequest = Readonly<{
+  adj: Adjacency;
+  start: Tile;
+  goal: Tile;
+  costOf: (id: TileId) => number; // cost of entering a tile, >= 1
+  tracer?: SearchTracer; // only set when explaining a search (see searchTrace.ts)
+}>;
+
+/**
+ * Observer for step-through views. Planners call `expand` when a node leaves the
+ * frontier and `discover` when a node is (re)queued with a new best parent.
+ */
+export type SearchTracer = Readonly<{
+  expand: (id: TileId) => void;
+  discover: (id: TileId, from: TileId) => void;
+}>;
+
+export type PlanResult = Readonly<{
+  path: Tile[]; // start..goal inclusive; [] when unreachable
+  cost: number; // sum of entered-tile costs; Infinity when unreachable
+  expanded: number; // nodes taken off the frontier
+}>;
+
+export type Planner = (req: PlanRequest) => PlanResult;
+
+export const noPath = (expanded: number): PlanResult => ({
+  path: [],
+  cost: Number.POSITIVE_INFINITY,
+  expanded,
+});
+
+/** Total cost of walking `path` (tiles entered after the start). */
+export const pathCost = (path: readonly Tile[], costOf: (id: TileId) => number): number => {
+  let cost = 0;
+  for (let i = 1; i < path.length; i++) cost += costOf(toTileId(path[i]));
+  return cost;
+};
+
+/** Number of 90° heading changes along `path`. */
+export const countTurns = (path: readonly Tile[]): number => {
+  let turns = 0;
+  for (let i = 2; i < path.length; i++) {
+    const prevAlongX = path[i - 1].x !== path[i - 2].x;
+    const nextAlongX = path[i].x !== path[i - 1].x;
+    if (prevAlongX !== nextAlongX) turns++;
+  }
+  return turns;
+};
@@ -0,0 +1,84 @@
+//searchTrace.ts
+//Explain layer: record a planner's expansion order and replay it frame by frame
+
+import type { Tile, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import type { PlanRequest, PlanResult, Planner } from "./planner";
+
+export type TraceLink = Readonly<{ id: TileId; from: TileId }>;
+
+export type TraceStep = Readonly<{
+  expanded: TileId; // node taken off the frontier
+  discovered: ReadonlyArray<TraceLink>; // nodes queued while expanding it
+}>;
+
+export type SearchTrace = Readonly<{
+  start: TileId;
+  goal: TileId;
+  steps: ReadonlyArray<TraceStep>;
+  result: PlanResult;
+}>;
+
+/** Run `planner` once with a recorder attached. */
+export const traceSearch = (planner: Planner, req: Omit<PlanRequest, "tracer">): SearchTrace => {
+  const steps: { expanded: TileId; discovered: TraceLink[] }[] = [];
+
+  const result = planner({
+    ...req,
+    tracer: {
+      expand: (id) => steps.push({ expanded: id, discovered: [] }),
+      discover: (id, from) => steps[steps.length - 1]?.discovered.push({ id, from }),
+    },
+  });
+
+  return { start: toTileId(req.start), goal: toTileId(req.goal), steps, result };
+};
+
+/**
+ * Frames: one per expansion, then one per tile of the found path while it is
+ * traced back from the goal. A failed search ends with the empty frontier.
+ */
+export const traceLength = (trace: SearchTrace): number =>
+  trace.steps.length + trace.result.path.length;
+
+export type TraceFrame = Readonly<{
+  visitOrder: ReadonlyMap<TileId, number>; // first expansion index per tile
+  frontier: ReadonlySet<TileId>; // queued, not yet expanded
+  cameFrom: ReadonlyMap<TileId, TileId>; // latest parent per discovered tile
+  current: TileId | null; // expanded on this frame
+  traced: ReadonlyArray<Tile>; // goal..back towards start, grows after the search
+  visitCount: number; // total expansions in the trace, for colour scaling
+}>;
+
+/** State after `frame` frames (0 = nothing expanded yet, only the start queued). */
+export const traceFrameAt = (trace: SearchTrace, frame: number): TraceFrame => {
+  const k = Math.max(0, Math.min(frame, traceLength(trace)));
+  const searched = Math.min(k, trace.steps.length);
+
+  const visitOrder = new Map<TileId, number>();
+  const frontier = new Set<TileId>([trace.start]);
+  const cameFrom = new Map<TileId, TileId>();
+
+  for (let i = 0; i < searched; i++) {
+    const step = trace.steps[i];
+    if (!visitOrder.has(step.expanded)) visitOrder.set(step.expanded, i);
+    frontier.delete(step.expanded);
+
+    for (const link of step.discovered) {
+      cameFrom.set(link.id, link.from);
+      if (!visitOrder.has(link.id)) frontier.add(link.id);
+    }
+  }
+
+  const tracedCount = Math.max(0, k - trace.steps.length);
+  const path = trace.result.path;
+
+  return {
+    visitOrder,
+    frontier,
+    cameFrom,
+    current: searched > 0 && tracedCount === 0 ? trace.steps[searched - 1].expanded : null,
+    traced: path.slice(path.length - tracedCount).reverse(),
+    visitCount: trace.steps.length,
+  };
+};
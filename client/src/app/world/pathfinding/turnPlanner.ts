@@ -0,0 +1,127 @@
+//turnPlanner.ts
+//Turn-aware search: state is (tile, heading) so a 90° corner can be priced
+
+import type { Tile } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { createMinHeap } from "./binaryHeap";
+import type { Axis } from "./neighbors";
+import type { PlanResult, Planner } from "./planner";
+import { noPath, pathCost } from "./planner";
+import {
+  MAX_DEGREE,
+  getCostTable,
+  getIndexGraph,
+  indexToTile,
+  indexToTileId,
+  tileToIndex,
+} from "./indexGraph";
+
+export type TurnPlannerOptions = Readonly<{
+  turnCost: number; // added every time the heading changes axis; 0 = tie-break only
+}>;
+
+// roughly what a corner costs the real dolly (slow down + pause) in tile moves
+export const DEFAULT_TURN_COST = 2;
+
+// "START" = no heading yet, so the first step is never a turn.
+// A search state is tileIndex * HEADINGS.length + heading slot.
+type Heading = Axis | "START";
+const HEADINGS: readonly Heading[] = ["START", "X", "Z"];
+const START = 0;
+const X = HEADINGS.indexOf("X");
+const Z = HEADINGS.indexOf("Z");
+
+/**
+ * A* over (tile, heading). Step cost = entered-tile cost, plus `turnCost` when the
+ * step changes axis. Among routes of equal cost the one with fewer turns wins
+ * ("prefer straight"), so even turnCost 0 stops the zig-zag.
+ *
+ * The reported `cost` is the plain tile cost of the path, like every other planner;
+ * the turn penalty only steers the search.
+ */
+export const createTurnPlanner =
+  ({ turnCost }: TurnPlannerOptions): Planner =>
+  ({ adj, start, goal, costOf, tracer }): PlanResult => {
+    if (toTileId(start) === toTileId(goal)) return { path: [start], cost: 0, expanded: 0 };
+
+    const graph = getIndexGraph(adj);
+    const startIdx = tileToIndex(graph, start);
+    const goalIdx = tileToIndex(graph, goal);
+    if (startIdx < 0 || goalIdx < 0) return noPath(0);
+
+    const { neighbors, cols } = graph;
+    const cost = getCostTable(graph, costOf);
+
+    // Manhattan plus the fewest turns left on an open floor from this heading: one
+    // when the goal is off both axes, or when it lies straight ahead on the other
+    // axis. Exact per (tile, heading) without obstacles, so it is consistent (a step
+    // lowers it by at most the step's cost) and the closed set below stays sound.
+    const h = (i: number, heading: number) => {
+      const dx = Math.abs((i % cols) - goal.x);
+      const dz = Math.abs(Math.floor(i / cols) - goal.z);
+      const offAxis =
+        (dx > 0 && dz > 0) || (dx > 0 && heading === Z) || (dz > 0 && heading === X);
+      return dx + dz + (offAxis ? turnCost : 0);
+    };
+
+    const states = graph.size * HEADINGS.length;
+    const g = new Float64Array(states).fill(Number.POSITIVE_INFINITY);
+    const turns = new Int32Array(states);
+    const cameFrom = new Int32Array(states).fill(-1);
+    const closed = new Uint8Array(states);
+    const heap = createMinHeap<number>();
+
+    const startState = startIdx * HEADINGS.length + START;
+    g[startState] = 0;
+    heap.push(startState, h(startIdx, START), 0);
+
+    let expanded = 0;
+    while (heap.size() > 0) {
+      const current = heap.pop() as number;
+      if (closed[current]) continue; // stale entry
+      closed[current] = 1;
+      expanded++;
+
+      const currentIdx = Math.floor(current / HEADINGS.length);
+      const heading = current % HEADINGS.length;
+      tracer?.expand(indexToTileId(currentIdx, cols)); // per tile: headings of one tile share a cell
+
+      if (currentIdx === goalIdx) {
+        const path: Tile[] = [];
+        for (let s = current; s >= 0; s = cameFrom[s]) {
+          path.push(indexToTile(Math.floor(s / HEADINGS.length), cols));
+        }
+        path.reverse();
+        return { path, cost: pathCost(path, costOf), expanded };
+      }
+
+      const gc = g[current];
+      const tc = turns[current];
+
+      for (let k = currentIdx * MAX_DEGREE, end = k + MAX_DEGREE; k < end; k++) {
+        const nextIdx = neighbors[k];
+        if (nextIdx < 0) continue;
+
+        const axis = nextIdx % cols !== currentIdx % cols ? X : Z;
+        const turned = heading !== START && heading !== axis;
+        const next = nextIdx * HEADINGS.length + axis;
+        if (closed[next]) continue;
+
+        const ng = gc + cost[nextIdx] + (turned ? turnCost : 0);
+        const nt = tc + (turned ? 1 : 0);
+
+        // lexicographic (cost, turns): equal cost with fewer turns still improves
+        if (ng < g[next] || (ng === g[next] && nt < turns[next])) {
+          g[next] = ng;
+          turns[next] = nt;
+          cameFrom[next] = current;
+          tracer?.discover(indexToTileId(nextIdx, cols), indexToTileId(currentIdx, cols));
+          heap.push(next, ng + h(nextIdx, axis), nt);
+        }
+      }
+    }
+
+    return noPath(expanded);
+  };
+
+export const turnPlanner: Planner = createTurnPlanner({ turnCost: DEFAULT_TURN_COST });
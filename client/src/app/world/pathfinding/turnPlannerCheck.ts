@@ -0,0 +1,151 @@
+//turnPlannerCheck.ts
+//Turn planner vs an exhaustive search on small random boards
+//
+// The planner promises the lowest (tile cost + turnCost · turns), then the fewest
+// turns. Here every (tile, heading) state is relaxed Bellman-Ford style until
+// nothing changes, with no heuristic and no closed set, and each query's optimum
+// is compared with what the planner returns. `npm run bench -- turns`.
+
+import type { GridConfig, TileCost, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { allTiles, buildCostFn, parseTileId } from "../grid/gridMath";
+import { buildPrunedAdjacency } from "../grid/gridRules";
+import { createRng } from "../towers/seededRandom";
+import type { Adjacency } from "./bfs";
+import { buildBaseEdges } from "./neighbors";
+import { countTurns, pathCost } from "./planner";
+import { createTurnPlanner } from "./turnPlanner";
+
+export type TurnCheckOptions = Readonly<{
+  size: number; // square grid side (the exhaustive search is O(states²))
+  boards: number;
+  queries: number; // per board
+  towers: number; // share of tiles blocked (TRANSPORT mode), 0..1
+  turnCost: number;
+  seed: number;
+}>;
+
+export type TurnCheckResult = Readonly<{
+  queries: number;
+  reachable: number;
+  costMismatches: number; // planner found a costlier route (should be 0)
+  turnMismatches: number; // same cost, more turns than needed (should be 0)
+  reachabilityMismatches: number;
+  firstMismatch: string; // "from→to planner … vs optimum …", "" when none
+}>;
+
+const DEFAULTS: TurnCheckOptions = {
+  size: 14,
+  boards: 20,
+  queries: 25,
+  towers: 0.25,
+  turnCost: 2,
+  seed: 1,
+};
+
+type Best = { weighted: number; turns: number };
+type State = Best & { id: TileId; heading: string };
+
+const better = (a: Best, b: Best) =>
+  a.weighted < b.weighted || (a.weighted === b.weighted && a.turns < b.turns);
+
+// optimum per goal over every (tile, heading) state reachable from `from`
+const exhaustive = (
+  adj: Adjacency,
+  from: TileId,
+  to: TileId,
+  costOf: (id: TileId) => number,
+  turnCost: number
+): Best | null => {
+  const key = (id: TileId, heading: string) => `${id}|${heading}`;
+  const best = new Map<string, State>([
+    [key(from, "START"), { id: from, heading: "START", weighted: 0, turns: 0 }],
+  ]);
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const b of [...best.values()]) {
+      const here = parseTileId(b.id);
+      for (const nextId of adj[b.id] ?? []) {
+        const axis = parseTileId(nextId).x !== here.x ? "X" : "Z";
+        const turned = b.heading !== "START" && b.heading !== axis;
+        const candidate = {
+          id: nextId,
+          heading: axis,
+          weighted: b.weighted + costOf(nextId) + (turned ? turnCost : 0),
+          turns: b.turns + (turned ? 1 : 0),
+        };
+        const k = key(nextId, axis);
+        const prev = best.get(k);
+        if (!prev || better(candidate, prev)) {
+          best.set(k, candidate);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  const atGoal: Best[] = ["START", "X", "Z"].flatMap((hd) => best.get(key(to, hd)) ?? []);
+  return atGoal.reduce<Best | null>((m, b) => (!m || better(b, m) ? b : m), null);
+};
+
+export const checkTurnPlanner = (options: Partial<TurnCheckOptions> = {}): TurnCheckResult => {
+  const { size, boards, queries, towers, turnCost, seed } = { ...DEFAULTS, ...options };
+  const rng = createRng(seed);
+  const planner = createTurnPlanner({ turnCost });
+  const floor: GridConfig = { rows: size, cols: size, tileSize: 1, origin: { x: 0, y: 0, z: 0 } };
+
+  let reachable = 0;
+  let costMismatches = 0;
+  let turnMismatches = 0;
+  let reachabilityMismatches = 0;
+  let firstMismatch = "";
+
+  for (let b = 0; b < boards; b++) {
+    // a few pricier tiles, so ties between routes are not all on plain floor
+    const tiles = allTiles(floor);
+    const costs: TileCost[] = tiles
+      .filter(() => rng.next() < 0.15)
+      .map((tile) => ({ tile, cost: 2 + rng.int(3) }));
+    const grid: GridConfig = { ...floor, costs };
+    const ids = tiles.map(toTileId);
+    const towerSet = new Set(rng.shuffle(ids).slice(0, Math.floor(ids.length * towers)));
+    const free = ids.filter((id) => !towerSet.has(id));
+    const adj = buildPrunedAdjacency("TRANSPORT", grid, buildBaseEdges(grid), towerSet);
+    const costOf = buildCostFn(grid);
+
+    for (let q = 0; q < queries; q++) {
+      const from = free[rng.int(free.length)];
+      const to = free[rng.int(free.length)];
+      const optimum = exhaustive(adj, from, to, costOf, turnCost);
+      const got = planner({ adj, start: parseTileId(from), goal: parseTileId(to), costOf });
+
+      const found = got.path.length > 0;
+      if (found !== (optimum !== null)) {
+        reachabilityMismatches++;
+        firstMismatch ||= `${from}→${to} reachable: planner ${found}, optimum ${optimum !== null}`;
+        continue;
+      }
+      if (!optimum) continue;
+
+      reachable++;
+      const turns = countTurns(got.path);
+      const weighted = pathCost(got.path, costOf) + turnCost * turns;
+      if (weighted !== optimum.weighted) costMismatches++;
+      else if (turns !== optimum.turns) turnMismatches++;
+      else continue;
+      firstMismatch ||=
+        `${from}→${to} planner cost ${weighted} / ${turns} turns, ` +
+        `optimum ${optimum.weighted} / ${optimum.turns} turns`;
+    }
+  }
+
+  return {
+    queries: boards * queries,
+    reachable,
+    costMismatches,
+    turnMismatches,
+    reachabilityMismatches,
+    firstMismatch,
+  };
+};
@@ -0,0 +1,23 @@
+// src/app/world/scenarios/sampleBoards.ts
+// Bundled challenge boards (boards/*.json, listed in file-name order).
+// Kept as raw JSON and validated on pick, same path as a user-supplied file.
+
+const files = import.meta.glob("./boards/*.json", { eager: true, import: "default" });
+
+export type SampleBoard = Readonly<{
+  id: string; // file name without extension
+  label: string;
+  raw: unknown;
+}>;
+
+const labelOf = (id: string, raw: unknown): string => {
+  const name = (raw as { name?: unknown } | null)?.name;
+  return typeof name === "string" ? name : id;
+};
+
+export const SAMPLE_BOARDS: ReadonlyArray<SampleBoard> = Object.keys(files)
+  .sort()
+  .map((path) => {
+    const id = path.replace(/^.*\//, "").replace(/\.json$/, "");
+    return { id, label: labelOf(id, files[path]), raw: files[path] };
+  });
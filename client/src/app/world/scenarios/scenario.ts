@@ -0,0 +1,156 @@
+// src/app/world/scenarios/scenario.ts
+// Scenario ("challenge board") files: a starting layout plus an optional goal.
+//
+// Grid fields other than rows/cols default to DEFAULT_GRID, so a board only
+// has to say how big it is, what is blocked / walled and where things start.
+
+import type { GridConfig, Tile, Tower } from "../grid/gridTypes";
+import { DEFAULT_GRID, toTileId, toTowerId } from "../grid/gridTypes";
+import { buildClosedSet, tileEquals } from "../grid/gridMath";
+import { failWith, isObject, isTile, parseGrid, parseTiles, tileInGrid } from "../sim/schema";
+
+export const SCENARIO_FORMAT = "dolly-grid-scenario";
+export const SCENARIO_VERSION = 1;
+
+/** Tower that starts on `from` must end up placed on `to`. */
+export type ScenarioJob = Readonly<{ from: Tile; to: Tile }>;
+
+export type ScenarioGoal =
+  | Readonly<{ type: "LAYOUT"; towers: ReadonlyArray<Tile> }> // every tile occupied, any tower
+  | Readonly<{ type: "JOBS"; jobs: ReadonlyArray<ScenarioJob> }>;
+
+export type Scenario = Readonly<{
+  name: string;
+  description: string;
+  grid: GridConfig; // includes the blocked / void tiles
+  towers: ReadonlyArray<Tile>;
+  dollyStart: Tile;
+  goal: ScenarioGoal | null;
+}>;
+
+export type GoalProgress = Readonly<{
+  done: number;
+  total: number;
+  complete: boolean;
+}>;
+
+// --------------------------
+// Parsing (bundled boards and user files alike)
+// --------------------------
+const fail = failWith("scenario");
+
+const parseGoal = (
+  v: unknown,
+  grid: GridConfig,
+  isOpen: (t: Tile) => boolean,
+  towers: readonly Tile[]
+): ScenarioGoal | null => {
+  if (v === undefined || v === null) return null;
+  if (!isObject(v)) return fail("goal must be an object");
+
+  if (v.type === "LAYOUT") {
+    const targets = parseTiles(v.towers, grid, fail, "goal.towers");
+    if (targets.length !== towers.length) {
+      fail(`goal.towers lists ${targets.length} tiles for ${towers.length} towers`);
+    }
+    targets.forEach((t, i) => {
+      if (!isOpen(t)) fail(`goal.towers[${i}] is blocked or void`);
+    });
+    return { type: "LAYOUT", towers: targets };
+  }
+
+  if (v.type === "JOBS") {
+    if (!Array.isArray(v.jobs) || v.jobs.length === 0) return fail("goal.jobs must be a non-empty list");
+
+    const jobs = v.jobs.map((j: unknown, i): ScenarioJob => {
+      if (!isObject(j) || !isTile(j.from) || !isTile(j.to)) {
+        return fail(`goal.jobs[${i}] needs from and to tiles`);
+      }
+      if (!towers.some((t) => tileEquals(t, j.from as Tile))) {
+        fail(`goal.jobs[${i}].from has no tower`);
+      }
+      if (!tileInGrid(j.to, grid) || !isOpen(j.to)) {
+        fail(`goal.jobs[${i}].to must be an open tile inside the grid`);
+      }
+      return { from: { x: j.from.x, z: j.from.z }, to: { x: j.to.x, z: j.to.z } };
+    });
+    return { type: "JOBS", jobs };
+  }
+
+  return fail(`goal.type must be LAYOUT or JOBS (got ${String(v.type)})`);
+};
+
+/** Validate an already-decoded scenario object. Throws with a readable message. */
+export const parseScenario = (raw: unknown): Scenario => {
+  if (!isObject(raw) || raw.format !== SCENARIO_FORMAT) return fail("not a scenario file");
+  if (raw.version !== SCENARIO_VERSION) {
+    return fail(`unsupported version ${String(raw.version)} (expected ${SCENARIO_VERSION})`);
+  }
+  if (typeof raw.name !== "string" || raw.name.trim() === "") return fail("name missing");
+
+  const g = isObject(raw.grid) ? raw.grid : fail("grid missing");
+  const grid = parseGrid(
+    {
+      tileSize: DEFAULT_GRID.tileSize,
+      origin: DEFAULT_GRID.origin,
+      ...g,
+      ...(raw.blocked !== undefined ? { blocked: raw.blocked } : {}),
+      ...(raw.voids !== undefined ? { voids: raw.voids } : {}),
+      ...(raw.walls !== undefined ? { walls: raw.walls } : {}),
+      ...(raw.costs !== undefined ? { costs: raw.costs } : {}),
+    },
+    fail
+  );
+
+  const closed = buildClosedSet(grid);
+  const isOpen = (t: Tile) => !closed.has(toTileId(t));
+
+  const towers = parseTiles(raw.towers, grid, fail, "towers");
+  towers.forEach((t, i) => {
+    if (!isOpen(t)) fail(`towers[${i}] is on a blocked or void tile`);
+  });
+
+  if (!isTile(raw.dollyStart) || !tileInGrid(raw.dollyStart, grid) || !isOpen(raw.dollyStart)) {
+    return fail("dollyStart must be an open tile inside the grid");
+  }
+
+  return {
+    name: raw.name,
+    description: typeof raw.description === "string" ? raw.description : "",
+    grid,
+    towers,
+    dollyStart: { x: raw.dollyStart.x, z: raw.dollyStart.z },
+    goal: parseGoal(raw.goal, grid, isOpen, towers),
+  };
+};
+
+export const parseScenarioText = (text: string): Scenario => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return fail("not valid JSON");
+  }
+  return parseScenario(raw);
+};
+
+// --------------------------
+// Goal tracking
+// --------------------------
+export const evaluateGoal = (
+  goal: ScenarioGoal,
+  towers: readonly Tower[],
+  carrying: Tower | null
+): GoalProgress => {
+  const placed = new Map(towers.map((t) => [toTileId(t.tile), t]));
+
+  const done =
+    goal.type === "LAYOUT"
+      ? goal.towers.filter((t) => placed.has(toTileId(t))).length
+      : goal.jobs.filter(
+          (j) => placed.get(toTileId(j.to))?.id === toTowerId(toTileId(j.from))
+        ).length;
+
+  const total = goal.type === "LAYOUT" ? goal.towers.length : goal.jobs.length;
+  return { done, total, complete: done === total && carrying === null };
+};
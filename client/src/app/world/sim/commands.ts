@@ -16,7 +16,20 @@ export type DropCommand = Readonly<{
   tile: Tile;
 }>;
 
-export type Command = MoveToCommand | LiftCommand | DropCommand;
+/**
+ * Swap the carried tower with the tower standing on `tile`.
+ * Kept as one command in the queue; the runner expands it into primitive
+ * MOVE_TO / LIFT / DROP steps only when it reaches the head, against the
+ * then-current world (staging tiles are never stale).
+ */
+export type SwapCommand = Readonly<{
+  type: "SWAP";
+  tile: Tile;
+}>;
+
+export type PrimitiveCommand = MoveToCommand | LiftCommand | DropCommand;
+
+export type Command = PrimitiveCommand | SwapCommand;
 
 export type HoverIntent =
   | Readonly<{ type: "LIFT_AT"; tile: Tile }>
@@ -28,4 +41,64 @@ export const CMD = {
   moveTo: (to: Tile): MoveToCommand => ({ type: "MOVE_TO", to }),
   lift: (tile: Tile): LiftCommand => ({ type: "LIFT", tile }),
   drop: (tile: Tile): DropCommand => ({ type: "DROP", tile }),
+  swap: (tile: Tile): SwapCommand => ({ type: "SWAP", tile }),
 } as const;
+
+export type MacroKind = "SWAP" | "UNDO" | "REDO";
+
+/**
+ * A macro mid-execution: its expanded steps and how many have started.
+ * SWAP: `command` is the SwapCommand itself.
+ * UNDO / REDO: `command` is the history entry's command being reverted / re-applied.
+ */
+export type MacroProgress = Readonly<{
+  kind: MacroKind;
+  command: Command;
+  steps: ReadonlyArray<PrimitiveCommand>;
+  index: number; // steps started so far (0..steps.length)
+}>;
+
+// --------------------------
+// Command outcomes
+// --------------------------
+export type CommandResultCode =
+  | "OK"
+  | "UNREACHABLE" // no path from the dolly to the target under the current mode
+  | "NO_TOWER_AT_TARGET" // LIFT on an empty tile
+  | "TILE_OCCUPIED" // DROP onto a placed tower
+  | "TILE_CLOSED" // MOVE / DROP onto a blocked or void tile
+  | "ALREADY_CARRYING" // LIFT while carrying
+  | "NOT_CARRYING" // DROP with nothing lifted
+  | "UNSUPPORTED"; // unknown command type
+
+export type CommandResult = Readonly<{
+  code: CommandResultCode;
+  command: Command;
+  tile: Tile; // target / offending tile
+  tick: number; // sim tick the outcome was decided on
+}>;
+
+export const commandTile = (cmd: Command): Tile =>
+  cmd.type === "MOVE_TO" ? cmd.to : cmd.tile;
+
+export const describeResult = (r: CommandResult): string => {
+  const at = `(${r.tile.x}, ${r.tile.z})`;
+  switch (r.code) {
+    case "OK":
+      return `${r.command.type} ${at} ok`;
+    case "UNREACHABLE":
+      return `no route to ${at}`;
+    case "NO_TOWER_AT_TARGET":
+      return `no tower on ${at} to lift`;
+    case "TILE_OCCUPIED":
+      return `${at} already has a tower`;
+    case "TILE_CLOSED":
+      return `${at} is blocked or has no floor`;
+    case "ALREADY_CARRYING":
+      return `already carrying; cannot lift ${at}`;
+    case "NOT_CARRYING":
+      return `nothing carried to ${r.command.type === "SWAP" ? "swap with" : "drop on"} ${at}`;
+    case "UNSUPPORTED":
+      return `unsupported command at ${at}`;
+  }
+};
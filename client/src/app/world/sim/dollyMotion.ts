@@ -0,0 +1,214 @@
+// src/app/world/sim/dollyMotion.ts
+// Kinematic dolly motion: turns a tile Path into a time-parameterised trajectory.
+//
+// Model:
+// - straight runs accelerate / cruise / decelerate (trapezoid, or triangle if short)
+// - 90° corners cap speed at turnSpeed; a turnPause > 0 means stop, dwell, go
+// - carrying lowers the cruise ceiling to maxSpeedCarrying
+//
+// Everything here is pure: same path + params => same trajectory, so the kernel,
+// HUD ETA, path trail and dolly mesh all agree on where the dolly is at time t.
+
+import type { GridConfig, Path, Vec3 } from "../grid/gridTypes";
+import { tileToWorldCenter } from "../grid/gridMath";
+
+export type MotionParams = Readonly<{
+  maxSpeed: number; // world units / s (empty)
+  maxSpeedCarrying: number; // world units / s (carrying a tower)
+  accel: number; // world units / s²
+  decel: number; // world units / s²
+  turnSpeed: number; // max speed through a 90° corner
+  turnPause: number; // seconds stopped at a corner (0 = roll through at turnSpeed)
+}>;
+
+export const DEFAULT_MOTION: MotionParams = {
+  maxSpeed: 2,
+  maxSpeedCarrying: 1.4,
+  accel: 2.5,
+  decel: 3,
+  turnSpeed: 0.5,
+  turnPause: 0,
+};
+
+export type TrajectorySample = Readonly<{
+  position: Vec3;
+  distance: number; // world units from path start
+  speed: number; // world units / s
+}>;
+
+export type Trajectory = Readonly<{
+  points: ReadonlyArray<Vec3>;
+  length: number; // world units
+  duration: number; // seconds
+  turns: number;
+  sampleAt: (t: number) => TrajectorySample;
+}>;
+
+// Constant-acceleration piece of the profile.
+type Phase = Readonly<{
+  t0: number;
+  duration: number;
+  d0: number;
+  v0: number;
+  a: number;
+}>;
+
+const assertPositive = (name: keyof MotionParams, v: number) => {
+  if (!(v > 0)) throw new Error(`dollyMotion: ${name} must be > 0 (got ${v})`);
+};
+
+/**
+ * Split a path into maximal straight runs.
+ * Returns the point indices where direction changes (excluding the endpoints).
+ */
+export const cornerIndices = (path: Path): number[] => {
+  const out: number[] = [];
+  for (let i = 1; i < path.length - 1; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const c = path[i + 1];
+    const dx1 = b.x - a.x;
+    const dz1 = b.z - a.z;
+    const dx2 = c.x - b.x;
+    const dz2 = c.z - b.z;
+    if (dx1 !== dx2 || dz1 !== dz2) out.push(i);
+  }
+  return out;
+};
+
+const pointAlong = (points: readonly Vec3[], d: number, segLen: number): Vec3 => {
+  if (points.length === 0) return { x: 0, y: 0, z: 0 };
+  if (points.length === 1 || segLen <= 0) return points[0];
+
+  const f = Math.max(0, d / segLen);
+  const i = Math.min(points.length - 2, Math.floor(f));
+  const t = Math.min(1, f - i);
+  const a = points[i];
+  const b = points[i + 1];
+
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t,
+  };
+};
+
+/**
+ * Accel / cruise / decel phases for one straight run of length L,
+ * entering at vs and leaving at ve (both already feasible for L).
+ */
+const runPhases = (
+  L: number,
+  vs: number,
+  ve: number,
+  vmax: number,
+  a: number,
+  d: number
+): Array<Omit<Phase, "t0" | "d0">> => {
+  const peak = Math.min(vmax, Math.sqrt((2 * a * d * L + d * vs * vs + a * ve * ve) / (a + d)));
+  const vp = Math.max(peak, vs, ve);
+
+  const accelDist = (vp * vp - vs * vs) / (2 * a);
+  const decelDist = (vp * vp - ve * ve) / (2 * d);
+  const cruiseDist = Math.max(0, L - accelDist - decelDist);
+
+  const out: Array<Omit<Phase, "t0" | "d0">> = [];
+  if (vp > vs) out.push({ duration: (vp - vs) / a, v0: vs, a });
+  if (cruiseDist > 0 && vp > 0) out.push({ duration: cruiseDist / vp, v0: vp, a: 0 });
+  if (vp > ve) out.push({ duration: (vp - ve) / d, v0: vp, a: -d });
+  return out;
+};
+
+export const buildTrajectory = (
+  path: Path,
+  grid: GridConfig,
+  carrying: boolean,
+  params: MotionParams = DEFAULT_MOTION
+): Trajectory => {
+  assertPositive("maxSpeed", params.maxSpeed);
+  assertPositive("maxSpeedCarrying", params.maxSpeedCarrying);
+  assertPositive("accel", params.accel);
+  assertPositive("decel", params.decel);
+
+  const points = path.map((t) => tileToWorldCenter(t, grid));
+  const seg = grid.tileSize;
+  const length = Math.max(0, path.length - 1) * seg;
+
+  if (path.length < 2) {
+    const p = points[0] ?? { x: 0, y: 0, z: 0 };
+    return {
+      points,
+      length: 0,
+      duration: 0,
+      turns: 0,
+      sampleAt: () => ({ position: p, distance: 0, speed: 0 }),
+    };
+  }
+
+  const vmax = carrying ? params.maxSpeedCarrying : params.maxSpeed;
+  const a = params.accel;
+  const d = params.decel;
+  const stopAtTurns = params.turnPause > 0;
+  const vTurn = stopAtTurns ? 0 : Math.max(0, Math.min(vmax, params.turnSpeed));
+
+  // Run boundaries: start, each corner, end
+  const corners = cornerIndices(path);
+  const bounds = [0, ...corners, path.length - 1];
+  const runLens = bounds.slice(1).map((b, i) => (b - bounds[i]) * seg);
+
+  // Boundary speeds: 0 at ends, vTurn at corners, then make them reachable
+  const v = bounds.map((_, i) => (i === 0 || i === bounds.length - 1 ? 0 : vTurn));
+  for (let i = v.length - 2; i >= 0; i--) {
+    v[i] = Math.min(v[i], Math.sqrt(v[i + 1] * v[i + 1] + 2 * d * runLens[i]));
+  }
+  for (let i = 1; i < v.length; i++) {
+    v[i] = Math.min(v[i], Math.sqrt(v[i - 1] * v[i - 1] + 2 * a * runLens[i - 1]));
+  }
+
+  const phases: Phase[] = [];
+  let t = 0;
+  let dist = 0;
+
+  for (let r = 0; r < runLens.length; r++) {
+    // dwell at the corner we just arrived on
+    if (r > 0 && stopAtTurns) {
+      phases.push({ t0: t, duration: params.turnPause, d0: dist, v0: 0, a: 0 });
+      t += params.turnPause;
+    }
+
+    for (const p of runPhases(runLens[r], v[r], v[r + 1], vmax, a, d)) {
+      phases.push({ ...p, t0: t, d0: dist });
+      t += p.duration;
+      dist += p.v0 * p.duration + 0.5 * p.a * p.duration * p.duration;
+    }
+
+    // snap accumulated float drift to the exact run boundary
+    dist = (bounds[r + 1] - bounds[0]) * seg;
+  }
+
+  const duration = t;
+
+  const sampleAt = (time: number): TrajectorySample => {
+    if (time >= duration) {
+      return { position: points[points.length - 1], distance: length, speed: 0 };
+    }
+
+    const tc = Math.max(0, time);
+    let lo = 0;
+    let hi = phases.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (phases[mid].t0 <= tc) lo = mid;
+      else hi = mid - 1;
+    }
+
+    const p = phases[lo];
+    const tau = Math.min(p.duration, tc - p.t0);
+    const distance = Math.min(length, p.d0 + p.v0 * tau + 0.5 * p.a * tau * tau);
+    const speed = Math.max(0, p.v0 + p.a * tau);
+
+    return { position: pointAlong(points, distance, seg), distance, speed };
+  };
+
+  return { points, length, duration, turns: corners.length, sampleAt };
+};
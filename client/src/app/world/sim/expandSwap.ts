@@ -1,10 +1,12 @@
 // src/app/sim/expandSwap.ts
 import type { GridConfig, Tile, TileId } from "../../world/grid/gridTypes";
 import { toTileId } from "../../world/grid/gridTypes";
-import { isInBounds, tileEquals } from "../../world/grid/gridMath";
+import { buildClosedSet, isInBounds, tileEquals } from "../../world/grid/gridMath";
 import type { Adjacency } from "../../world/pathfinding/bfs";
+import type { PathAlgorithm } from "../../world/pathfinding/findPath";
+import { findPath } from "../../world/pathfinding/findPath";
 import { CMD } from "./commands";
-import type { Command } from "./commands";
+import type { PrimitiveCommand } from "./commands";
 
 export const neighbors4 = (tile: Tile, grid: GridConfig): Tile[] => {
   const candidates: Tile[] = [
@@ -16,42 +18,23 @@ export const neighbors4 = (tile: Tile, grid: GridConfig): Tile[] => {
   return candidates.filter((t) => isInBounds(t, grid));
 };
 
-export const distance = (adj: Adjacency, from: Tile, to: Tile): number => {
-  const startId = toTileId(from);
-  const goalId = toTileId(to);
-
-  if (startId === goalId) return 0;
-
-  const queue: TileId[] = [startId];
-  const visited = new Set<TileId>([startId]);
-  const dist: Record<TileId, number> = {} as Record<TileId, number>;
-  dist[startId] = 0;
-
-  while (queue.length > 0) {
-    const cur = queue.shift() as TileId;
-    const curD = dist[cur] ?? 0;
-
-    if (cur === goalId) return curD;
-
-    const ns = adj[cur] ?? [];
-    for (const nxt of ns) {
-      if (visited.has(nxt)) continue;
-      visited.add(nxt);
-      dist[nxt] = curD + 1;
-      queue.push(nxt);
-    }
-  }
-
-  return Number.POSITIVE_INFINITY;
-};
+// Path cost under the active planner (Infinity when unreachable). Every candidate
+// shares `from`, so field-backed algorithms search once and answer the rest from cache.
+export const distance = (
+  algorithm: PathAlgorithm,
+  adj: Adjacency,
+  from: Tile,
+  to: Tile,
+  costOf: (id: TileId) => number
+): number => findPath(algorithm, adj, from, to, costOf).cost;
 
 const stableTileKey = (t: Tile): string => `${t.x}:${t.z}`;
 
 const pickClosest = (
   candidates: readonly Tile[],
-  adjTransport: Adjacency,
-  swapStart: Tile
+  args: ExpandSwapArgs
 ): Tile | null => {
+  const { algorithm, adjTransport, swapStart, costOf } = args;
   let best: Tile | null = null;
   let bestD = Number.POSITIVE_INFINITY;
 
@@ -61,7 +44,7 @@ const pickClosest = (
   );
 
   for (const c of sorted) {
-    const d = distance(adjTransport, swapStart, c);
+    const d = distance(algorithm, adjTransport, swapStart, c, costOf);
     if (d < bestD) {
       bestD = d;
       best = c;
@@ -77,36 +60,33 @@ export type ExpandSwapArgs = Readonly<{
   bOrigin: Tile; // hovered tower origin
   adjTransport: Adjacency; // TRANSPORT adjacency (tower tiles fully blocked)
   towerSet: ReadonlySet<TileId>; // placed towers excluding carried A
+  algorithm: PathAlgorithm; // the kernel's active planner
+  costOf: (id: TileId) => number;
 }>;
 
 /**
  * Expand SWAP(A carried at aOrigin, B at bOrigin) into primitive queue commands using
- * two staging tiles adjacent to bOrigin chosen by BFS distance from swapStart under TRANSPORT.
+ * two staging tiles adjacent to bOrigin chosen by planner distance from swapStart under TRANSPORT.
  *
  * If no valid s1 or s2 exist, returns [] (caller should no-op / disable).
  */
-export const expandSwap = ({
-  grid,
-  swapStart,
-  aOrigin,
-  bOrigin,
-  adjTransport,
-  towerSet,
-}: ExpandSwapArgs): Command[] => {
-  // candidates are adjacent to bOrigin, in bounds, and not occupied by a placed tower
+export const expandSwap = (args: ExpandSwapArgs): PrimitiveCommand[] => {
+  const { grid, aOrigin, bOrigin, towerSet } = args;
+  // candidates are adjacent to bOrigin, in bounds, on open floor and not occupied by a placed tower
+  const closed = buildClosedSet(grid);
   const candidates = neighbors4(bOrigin, grid).filter((t) => {
     const id = toTileId(t);
-    if (towerSet.has(id)) return false;
+    if (towerSet.has(id) || closed.has(id)) return false;
     // staging should not be bOrigin itself (it isn't, since neighbors4)
     // allow aOrigin if it is adjacent and currently empty (it should be empty while carrying).
     return true;
   });
 
-  const s1 = pickClosest(candidates, adjTransport, swapStart);
+  const s1 = pickClosest(candidates, args);
   if (!s1) return [];
 
   const s2Candidates = candidates.filter((t) => !tileEquals(t, s1));
-  const s2 = pickClosest(s2Candidates, adjTransport, swapStart);
+  const s2 = pickClosest(s2Candidates, args);
   if (!s2) return [];
 
   // Macro plan (as specified)
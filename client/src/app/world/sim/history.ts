@@ -0,0 +1,76 @@
+// src/app/world/sim/history.ts
+// Undo / redo history over executed commands.
+//
+// Each entry is one user-level command (LIFT, DROP or a whole SWAP) plus the
+// tower deltas it actually caused. Undo either re-plans the inverse deltas as
+// primitive commands (the dolly physically puts things back) or restores the
+// snapshot taken before the command (edit mode, instant).
+
+import type { Tile, Tower, TowerId } from "../grid/gridTypes";
+import type { Command, PrimitiveCommand } from "./commands";
+import { CMD } from "./commands";
+
+export const HISTORY_LIMIT = 100;
+
+export type WorldDelta = Readonly<{
+  type: "LIFT" | "DROP";
+  towerId: TowerId;
+  tile: Tile;
+}>;
+
+export type HistorySnapshot = Readonly<{
+  towers: ReadonlyArray<Tower>;
+  carrying: Tower | null;
+  dollyTile: Tile;
+}>;
+
+export type HistoryEntry = Readonly<{
+  command: Command;
+  deltas: ReadonlyArray<WorldDelta>;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}>;
+
+export type History = Readonly<{
+  past: ReadonlyArray<HistoryEntry>; // oldest first
+  future: ReadonlyArray<HistoryEntry>; // next redo last
+}>;
+
+export type UndoMode = "PLAN" | "INSTANT";
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+/** A fresh command invalidates the redo stack. */
+export const pushEntry = (
+  h: History,
+  entry: HistoryEntry,
+  limit: number = HISTORY_LIMIT
+): History => ({
+  past: [...h.past, entry].slice(-limit),
+  future: [],
+});
+
+export const moveToFuture = (h: History): History => {
+  const entry = h.past[h.past.length - 1];
+  if (!entry) return h;
+  return { past: h.past.slice(0, -1), future: [...h.future, entry] };
+};
+
+export const moveToPast = (h: History): History => {
+  const entry = h.future[h.future.length - 1];
+  if (!entry) return h;
+  return { past: [...h.past, entry], future: h.future.slice(0, -1) };
+};
+
+const deltaToCommand = (d: WorldDelta): PrimitiveCommand =>
+  d.type === "LIFT" ? CMD.lift(d.tile) : CMD.drop(d.tile);
+
+/** Commands that put the world back: every delta inverted, newest first. */
+export const inversePlan = (entry: HistoryEntry): PrimitiveCommand[] =>
+  [...entry.deltas]
+    .reverse()
+    .map((d) => deltaToCommand({ ...d, type: d.type === "LIFT" ? "DROP" : "LIFT" }));
+
+/** Commands that re-apply the entry's deltas in their original order. */
+export const replayPlan = (entry: HistoryEntry): PrimitiveCommand[] =>
+  entry.deltas.map(deltaToCommand);
@@ -0,0 +1,127 @@
+// src/app/world/sim/planClient.ts
+// Main-thread side of the plan worker: one Worker, one port per kernel.
+//
+// A port is a single channel: a new `run` supersedes the one in flight (it is
+// cancelled on the worker and its promise resolves null), so only the latest
+// question a kernel asked is ever answered. Without Worker support (tests,
+// Node) the same server runs in-thread, still one job per macrotask.
+
+import type { GridConfig, TileId } from "../grid/gridTypes";
+import type { PathCacheStats } from "../pathfinding/pathCache";
+import { PATH_CACHE_CAPACITY } from "../pathfinding/pathCache";
+import type { PlanJob, PlanOutcome } from "./planJobs";
+import { createPlanServer } from "./planServer";
+import type { PlanWorkerRequest, PlanWorkerResponse } from "./planWorkerProtocol";
+
+export type PlanPort = Readonly<{
+  /** Resolves with the outcome, or null once superseded / cancelled; rejects if planning failed. */
+  run: (job: PlanJob, towers: ReadonlyArray<TileId>) => Promise<PlanOutcome | null>;
+  /** Drop the request in flight (if any). */
+  cancel: () => void;
+  /** Free the worker-side graphs; the next `run` re-opens them. */
+  close: () => void;
+}>;
+
+export type PlanClient = Readonly<{
+  open: (grid: GridConfig) => PlanPort;
+  offThread: () => boolean; // true while a live worker does the planning
+  cacheStats: () => PathCacheStats; // planner-side path cache, as of the latest answer
+}>;
+
+type Settle = Readonly<{ resolve: (o: PlanOutcome | null) => void; reject: (e: Error) => void }>;
+
+export const createPlanClient = (): PlanClient => {
+  const inFlight = new Map<number, Settle>();
+  const opened = new Set<number>(); // worlds the current backend knows
+  let nextWorldId = 1;
+  let nextRequestId = 1;
+  let cache: PathCacheStats = { hits: 0, misses: 0, evictions: 0, size: 0, capacity: PATH_CACHE_CAPACITY };
+
+  const onResponse = (msg: PlanWorkerResponse) => {
+    if (msg.type === "PLANNED") cache = msg.cache; // counters move even for superseded answers
+    const settle = inFlight.get(msg.requestId);
+    if (!settle) return; // superseded or cancelled meanwhile
+    inFlight.delete(msg.requestId);
+    if (msg.type === "PLANNED") settle.resolve(msg.outcome);
+    else settle.reject(new Error(msg.message));
+  };
+
+  let worker: Worker | null = null;
+  let backend: ((msg: PlanWorkerRequest) => void) | null = null;
+
+  // the in-thread server starts a fresh cache
+  const fallBack = () => {
+    worker = null;
+    backend = createPlanServer(onResponse);
+    opened.clear();
+    cache = { ...cache, hits: 0, misses: 0, evictions: 0, size: 0 };
+  };
+
+  // spawned on first use, so clients that never plan (or get discarded) cost nothing
+  const post = (msg: PlanWorkerRequest) => {
+    if (!backend) {
+      if (typeof Worker === "undefined") {
+        fallBack();
+      } else {
+        const w = new Worker(new URL("./planWorker.ts", import.meta.url), { type: "module" });
+        w.onmessage = (e: MessageEvent<PlanWorkerResponse>) => onResponse(e.data);
+
+        // failed to load or crashed: fail what it held, plan in-thread from now on
+        w.onerror = (e) => {
+          w.terminate();
+          fallBack();
+          const failed = [...inFlight.values()];
+          inFlight.clear();
+          for (const s of failed) s.reject(new Error(`plan worker failed: ${e.message}`));
+        };
+        worker = w;
+        backend = (m) => w.postMessage(m);
+      }
+    }
+    backend?.(msg);
+  };
+
+  const open = (grid: GridConfig): PlanPort => {
+    const worldId = nextWorldId++;
+    let current: number | null = null;
+
+    const cancel = () => {
+      if (current === null) return;
+      const requestId = current;
+      current = null;
+      const settle = inFlight.get(requestId);
+      if (!settle) return;
+      inFlight.delete(requestId);
+      post({ type: "CANCEL", requestId });
+      settle.resolve(null);
+    };
+
+    const run = (job: PlanJob, towers: ReadonlyArray<TileId>) => {
+      cancel();
+      if (!opened.has(worldId)) {
+        post({ type: "OPEN_WORLD", worldId, grid });
+        opened.add(worldId);
+      }
+
+      const requestId = nextRequestId++;
+      current = requestId;
+      return new Promise<PlanOutcome | null>((resolve, reject) => {
+        inFlight.set(requestId, { resolve, reject });
+        post({ type: "PLAN", requestId, worldId, towers, job });
+      });
+    };
+
+    const close = () => {
+      cancel();
+      if (!opened.delete(worldId)) return;
+      post({ type: "CLOSE_WORLD", worldId });
+    };
+
+    return { run, cancel, close };
+  };
+
+  // before the first plan: whether a worker will be tried
+  const offThread = () => (backend === null ? typeof Worker !== "undefined" : worker !== null);
+
+  return { open, offThread, cacheStats: () => cache };
+};
@@ -0,0 +1,113 @@
+// src/app/world/sim/planJobs.ts
+// Plan jobs: the runner's (and the previews') planning work as plain data, so it can run off-thread.
+//
+// A job names everything the answer depends on except the tower set, which
+// travels next to it (and is folded into the key as a fingerprint). The same
+// job always produces the same outcome, whether the kernel runs it inline, a
+// replay re-runs it, or the plan worker answers it.
+
+import type { GridConfig, Tile, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { buildCostFn } from "../grid/gridMath";
+import type { Mode } from "../grid/gridRules";
+import type { Adjacency } from "../pathfinding/bfs";
+import type { PathAlgorithm } from "../pathfinding/findPath";
+import { findPath, getPlanner } from "../pathfinding/findPath";
+import type { LiveAdjacency } from "../pathfinding/liveAdjacency";
+import { createLiveAdjacency } from "../pathfinding/liveAdjacency";
+import type { Edge } from "../pathfinding/neighbors";
+import { buildBaseEdges } from "../pathfinding/neighbors";
+import type { PathCache } from "../pathfinding/pathCache";
+import { createPathCache, gridFingerprint, obstacleFingerprint } from "../pathfinding/pathCache";
+import type { PlanResult } from "../pathfinding/planner";
+import type { SearchTrace } from "../pathfinding/searchTrace";
+import { traceSearch } from "../pathfinding/searchTrace";
+import type { PrimitiveCommand } from "./commands";
+import { expandSwap } from "./expandSwap";
+
+export type PlanJob =
+  | Readonly<{ kind: "PATH"; mode: Mode; algorithm: PathAlgorithm; from: Tile; to: Tile }>
+  | Readonly<{ kind: "SWAP"; algorithm: PathAlgorithm; swapStart: Tile; aOrigin: Tile; bOrigin: Tile }>
+  // explain view: the same query as PATH, with the expansion order recorded
+  | Readonly<{ kind: "TRACE"; mode: Mode; algorithm: PathAlgorithm; from: Tile; to: Tile }>;
+
+export type PlanOutcome =
+  | Readonly<{ kind: "PATH"; result: PlanResult }>
+  | Readonly<{ kind: "SWAP"; steps: ReadonlyArray<PrimitiveCommand> }>
+  | Readonly<{ kind: "TRACE"; trace: SearchTrace }>;
+
+/** Identity of a job over a tower set (`fingerprint` = obstacleFingerprint of it). */
+export const planJobKey = (job: PlanJob, fingerprint: string): string =>
+  job.kind === "SWAP"
+    ? `${fingerprint}|SWAP|${job.algorithm}|${toTileId(job.swapStart)}|${toTileId(job.aOrigin)}|${toTileId(job.bOrigin)}`
+    : `${fingerprint}|${job.kind}|${job.mode}|${job.algorithm}|${toTileId(job.from)}|${toTileId(job.to)}`;
+
+/** Tile the job is planning towards (UI "planning…" state). */
+export const planJobTarget = (job: PlanJob): Tile => (job.kind === "SWAP" ? job.bOrigin : job.to);
+
+export type PlanHost = Readonly<{
+  /** Run `job` over `towers` (placed towers, carried one excluded). */
+  run: (job: PlanJob, towers: ReadonlyArray<TileId>) => PlanOutcome;
+}>;
+
+/**
+ * Everything a job needs for one grid, kept warm between jobs: live graphs are
+ * patched to each job's tower set instead of rebuilt. PATH answers go through
+ * `cache`, keyed by grid + tower fingerprints, so hosts that share it (the runner's
+ * and the previews', on the worker) reuse each other's answers.
+ */
+export const createPlanHost = (grid: GridConfig, cache: PathCache = createPathCache()): PlanHost => {
+  const gridKey = gridFingerprint(grid);
+  const baseEdges: readonly Edge[] = buildBaseEdges(grid);
+  const costOf = buildCostFn(grid);
+  const graphs: Partial<Record<Mode, LiveAdjacency>> = {};
+
+  const adjacency = (mode: Mode, towerSet: ReadonlySet<TileId>): Adjacency => {
+    const hit = graphs[mode];
+    if (hit) {
+      hit.setTowers(towerSet);
+      return hit.adj;
+    }
+    const live = createLiveAdjacency(mode, grid, baseEdges, towerSet);
+    graphs[mode] = live;
+    return live.adj;
+  };
+
+  const run = (job: PlanJob, towers: ReadonlyArray<TileId>): PlanOutcome => {
+    const towerSet: ReadonlySet<TileId> = new Set(towers);
+
+    if (job.kind === "PATH") {
+      const key = `${gridKey}|${planJobKey(job, obstacleFingerprint(towers))}`;
+      const hit = cache.get(key);
+      if (hit) return { kind: "PATH", result: hit };
+
+      const result = findPath(job.algorithm, adjacency(job.mode, towerSet), job.from, job.to, costOf);
+      cache.set(key, result);
+      return { kind: "PATH", result };
+    }
+
+    if (job.kind === "TRACE") {
+      const trace = traceSearch(getPlanner(job.algorithm), {
+        adj: adjacency(job.mode, towerSet),
+        start: job.from,
+        goal: job.to,
+        costOf,
+      });
+      return { kind: "TRACE", trace };
+    }
+
+    const steps = expandSwap({
+      grid,
+      swapStart: job.swapStart,
+      aOrigin: job.aOrigin,
+      bOrigin: job.bOrigin,
+      adjTransport: adjacency("TRANSPORT", towerSet),
+      towerSet,
+      algorithm: job.algorithm,
+      costOf,
+    });
+    return { kind: "SWAP", steps };
+  };
+
+  return { run };
+};
@@ -0,0 +1,67 @@
+// src/app/world/sim/planServer.ts
+// Worker side of the plan protocol (also run in-thread when Workers are unavailable).
+//
+// PLANs are queued and run one per macrotask, so a CANCEL posted right behind
+// a burst of superseded requests is seen before they would have run. Every world
+// plans through one path cache, whose counters ride back on each answer.
+
+import { createPathCache } from "../pathfinding/pathCache";
+import type { PlanHost } from "./planJobs";
+import { createPlanHost } from "./planJobs";
+import type { PlanWorkerRequest, PlanWorkerResponse } from "./planWorkerProtocol";
+
+type PlanRequest = Extract<PlanWorkerRequest, { type: "PLAN" }>;
+
+export const createPlanServer = (reply: (msg: PlanWorkerResponse) => void) => {
+  const worlds = new Map<number, PlanHost>();
+  const cache = createPathCache();
+  let queue: PlanRequest[] = [];
+  let scheduled = false;
+
+  const runNext = () => {
+    scheduled = false;
+    const req = queue.shift();
+    if (!req) return;
+    if (queue.length > 0) schedule();
+
+    const host = worlds.get(req.worldId);
+    if (!host) {
+      reply({ type: "FAILED", requestId: req.requestId, message: `unknown world ${req.worldId}` });
+      return;
+    }
+
+    const t0 = performance.now();
+    try {
+      const outcome = host.run(req.job, req.towers);
+      const ms = performance.now() - t0;
+      reply({ type: "PLANNED", requestId: req.requestId, outcome, ms, cache: cache.stats() });
+    } catch (err) {
+      reply({ type: "FAILED", requestId: req.requestId, message: String(err) });
+    }
+  };
+
+  const schedule = () => {
+    if (scheduled) return;
+    scheduled = true;
+    setTimeout(runNext, 0);
+  };
+
+  return (msg: PlanWorkerRequest) => {
+    switch (msg.type) {
+      case "OPEN_WORLD":
+        worlds.set(msg.worldId, createPlanHost(msg.grid, cache));
+        return;
+      case "CLOSE_WORLD":
+        worlds.delete(msg.worldId);
+        queue = queue.filter((r) => r.worldId !== msg.worldId);
+        return;
+      case "PLAN":
+        queue.push(msg);
+        schedule();
+        return;
+      case "CANCEL":
+        queue = queue.filter((r) => r.requestId !== msg.requestId);
+        return;
+    }
+  };
+};
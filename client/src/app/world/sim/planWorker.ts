@@ -0,0 +1,16 @@
+// src/app/world/sim/planWorker.ts
+// Plan worker entry: binds the plan server to the worker's message port.
+
+import { createPlanServer } from "./planServer";
+import type { PlanWorkerRequest, PlanWorkerResponse } from "./planWorkerProtocol";
+
+// the app compiles against DOM, not WebWorker: declare just what we use of the worker scope
+type WorkerScope = {
+  onmessage: ((e: MessageEvent<PlanWorkerRequest>) => void) | null;
+  postMessage: (msg: PlanWorkerResponse) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+const handle = createPlanServer((msg) => scope.postMessage(msg));
+
+scope.onmessage = (e) => handle(e.data);
@@ -0,0 +1,32 @@
+// src/app/world/sim/planWorkerProtocol.ts
+// Messages between the main thread (planClient) and the plan worker (planServer).
+//
+// A world is one grid; its graphs live on the worker until CLOSE_WORLD. Every
+// PLAN carries the tower set it is for, so the worker holds no run state.
+
+import type { GridConfig, TileId } from "../grid/gridTypes";
+import type { PathCacheStats } from "../pathfinding/pathCache";
+import type { PlanJob, PlanOutcome } from "./planJobs";
+
+export type PlanWorkerRequest =
+  | Readonly<{ type: "OPEN_WORLD"; worldId: number; grid: GridConfig }>
+  | Readonly<{ type: "CLOSE_WORLD"; worldId: number }>
+  | Readonly<{
+      type: "PLAN";
+      requestId: number;
+      worldId: number;
+      towers: ReadonlyArray<TileId>;
+      job: PlanJob;
+    }>
+  // drops a queued PLAN; one already running finishes and its answer is ignored
+  | Readonly<{ type: "CANCEL"; requestId: number }>;
+
+export type PlanWorkerResponse =
+  | Readonly<{
+      type: "PLANNED";
+      requestId: number;
+      outcome: PlanOutcome;
+      ms: number;
+      cache: PathCacheStats; // the worker's shared path cache, after this job
+    }>
+  | Readonly<{ type: "FAILED"; requestId: number; message: string }>;
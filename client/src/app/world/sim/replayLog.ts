@@ -0,0 +1,222 @@
+// src/app/world/sim/replayLog.ts
+// Versioned run log: initial layout + every input with the sim tick it arrived on.
+//
+// The kernel is deterministic per tick, so re-creating it from `init` and
+// feeding the same inputs at the same ticks reproduces the run exactly.
+// An input stamped with tick N arrived after tick N ran (before tick N + 1).
+
+import type { GridConfig, Tile, Tower } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { buildClosedSet } from "../grid/gridMath";
+import type { PathAlgorithm } from "../pathfinding/findPath";
+import { DEFAULT_PATH_ALGORITHM, PLANNER_REGISTRY } from "../pathfinding/findPath";
+import type { WorldRestore } from "../../../state/worldStore";
+import type { Command } from "./commands";
+import { commandTile } from "./commands";
+import type { MotionParams } from "./dollyMotion";
+import type { UndoMode } from "./history";
+import {
+  failWith,
+  isInt,
+  isObject,
+  isTile,
+  parseCommands,
+  parseGrid,
+  parseTower,
+  tileInGrid,
+} from "./schema";
+
+export const REPLAY_LOG_FORMAT = "dolly-grid-replay";
+export const REPLAY_LOG_VERSION = 1;
+
+export type ReplayInput =
+  | Readonly<{ tick: number; type: "DISPATCH"; commands: ReadonlyArray<Command> }>
+  | Readonly<{ tick: number; type: "UNDO" | "REDO"; mode: UndoMode }>
+  | Readonly<{ tick: number; type: "SET_PATH_ALGORITHM"; algorithm: PathAlgorithm }>
+  // the off-thread plan the runner was waiting on arrived (replays plan it inline here)
+  | Readonly<{ tick: number; type: "PLAN_READY" }>;
+
+export type ReplayInit = Readonly<{
+  grid: GridConfig;
+  towers: ReadonlyArray<Tile>;
+  dollyTile: Tile;
+  motion: MotionParams;
+  tickRate: number;
+  pathAlgorithm?: PathAlgorithm; // absent in logs written before planners were selectable (BFS)
+  asyncPlanning?: boolean; // run planned off-thread: MOVE_TO / SWAP wait for PLAN_READY
+  restore?: WorldRestore; // run started from a loaded snapshot, not a fresh layout
+}>;
+
+export type ReplayLog = Readonly<{
+  format: typeof REPLAY_LOG_FORMAT;
+  version: typeof REPLAY_LOG_VERSION;
+  init: ReplayInit;
+  inputs: ReadonlyArray<ReplayInput>; // ascending tick
+  endTick: number; // clock tick when the log was exported
+}>;
+
+export const serializeReplayLog = (log: ReplayLog): string => JSON.stringify(log, null, 2);
+
+// --------------------------
+// Parsing (untrusted file contents)
+// --------------------------
+const fail = failWith("replay log");
+
+const isUndoMode = (v: unknown): v is UndoMode => v === "PLAN" || v === "INSTANT";
+
+const isPathAlgorithm = (v: unknown): v is PathAlgorithm => PLANNER_REGISTRY.some((a) => a.id === v);
+
+const parseMotion = (v: unknown): MotionParams => {
+  if (!isObject(v)) return fail("init.motion missing");
+
+  // zero / negative speeds and rates only blow up mid-replay, as NaN trajectories
+  const num = (k: keyof MotionParams, min: number, inclusive: boolean): number => {
+    const n = v[k];
+    if (typeof n !== "number" || !Number.isFinite(n) || (inclusive ? n < min : n <= min)) {
+      return fail(`init.motion.${k} must be a finite number ${inclusive ? ">=" : ">"} ${min}`);
+    }
+    return n;
+  };
+
+  return {
+    maxSpeed: num("maxSpeed", 0, false),
+    maxSpeedCarrying: num("maxSpeedCarrying", 0, false),
+    accel: num("accel", 0, false),
+    decel: num("decel", 0, false),
+    turnSpeed: num("turnSpeed", 0, false),
+    turnPause: num("turnPause", 0, true),
+  };
+};
+
+const parseInput = (v: unknown, i: number): ReplayInput => {
+  if (!isObject(v) || !isInt(v.tick) || v.tick < 0) {
+    return fail(`inputs[${i}] needs a non-negative integer tick`);
+  }
+  const tick = v.tick;
+
+  if (v.type === "DISPATCH") {
+    return {
+      tick,
+      type: "DISPATCH",
+      commands: parseCommands(v.commands, fail, `inputs[${i}].commands`),
+    };
+  }
+
+  if (v.type === "UNDO" || v.type === "REDO") {
+    if (!isUndoMode(v.mode)) return fail(`inputs[${i}].mode must be PLAN or INSTANT`);
+    return { tick, type: v.type, mode: v.mode };
+  }
+
+  if (v.type === "SET_PATH_ALGORITHM") {
+    if (!isPathAlgorithm(v.algorithm)) return fail(`inputs[${i}] has unknown algorithm`);
+    return { tick, type: "SET_PATH_ALGORITHM", algorithm: v.algorithm };
+  }
+
+  if (v.type === "PLAN_READY") return { tick, type: "PLAN_READY" };
+
+  return fail(`inputs[${i}] has unknown type ${String(v.type)}`);
+};
+
+/** Parse + validate a log file. Throws with a readable message on bad input. */
+export const parseReplayLog = (text: string): ReplayLog => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return fail("not valid JSON");
+  }
+
+  if (!isObject(raw) || raw.format !== REPLAY_LOG_FORMAT) return fail("not a replay log");
+  if (raw.version !== REPLAY_LOG_VERSION) {
+    return fail(`unsupported version ${String(raw.version)} (expected ${REPLAY_LOG_VERSION})`);
+  }
+
+  const init = raw.init;
+  if (!isObject(init)) return fail("init missing");
+
+  const grid = parseGrid(init.grid, fail, "init.grid");
+  const inBounds = (t: Tile) => tileInGrid(t, grid);
+  const closed = buildClosedSet(grid);
+
+  // same rules as snapshots and links: on the grid, on open floor, one tower per tile
+  const checkTowerTiles = (tiles: readonly Tile[], at: string) => {
+    const seen = new Set<string>();
+    for (const t of tiles) {
+      const key = toTileId(t);
+      if (!inBounds(t)) fail(`${at} has tile ${key} outside the grid`);
+      if (closed.has(key)) fail(`${at} has tile ${key} on a blocked or void tile`);
+      if (seen.has(key)) fail(`${at} has two towers on tile ${key}`);
+      seen.add(key);
+    }
+  };
+
+  if (!Array.isArray(init.towers) || !init.towers.every(isTile)) {
+    return fail("init.towers must be a list of tiles");
+  }
+  checkTowerTiles(init.towers, "init.towers");
+
+  if (!isTile(init.dollyTile) || !inBounds(init.dollyTile)) {
+    return fail("init.dollyTile must be a tile inside the grid");
+  }
+  if (closed.has(toTileId(init.dollyTile))) return fail("init.dollyTile is on a blocked or void tile");
+
+  const tickRate = init.tickRate;
+  if (typeof tickRate !== "number" || !(tickRate > 0)) return fail("init.tickRate must be > 0");
+
+  const pathAlgorithm = init.pathAlgorithm ?? DEFAULT_PATH_ALGORITHM;
+  if (!isPathAlgorithm(pathAlgorithm)) return fail("init.pathAlgorithm is unknown");
+
+  if (init.asyncPlanning !== undefined && typeof init.asyncPlanning !== "boolean") {
+    return fail("init.asyncPlanning must be a boolean");
+  }
+
+  let restore: WorldRestore | undefined;
+  if (init.restore !== undefined) {
+    const r = init.restore;
+    if (!isObject(r) || !Array.isArray(r.towers)) return fail("init.restore.towers missing");
+    const carrying: Tower | null =
+      r.carrying == null ? null : parseTower(r.carrying, fail, "init.restore.carrying");
+    const towers = r.towers.map((t, i) => parseTower(t, fail, `init.restore.towers[${i}]`));
+    checkTowerTiles(towers.map((t) => t.tile), "init.restore.towers");
+
+    const ids = new Set<string>();
+    for (const t of carrying ? [...towers, carrying] : towers) {
+      if (ids.has(t.id)) fail(`init.restore has duplicate tower id ${t.id}`);
+      ids.add(t.id);
+    }
+
+    const queue = parseCommands(r.queue ?? [], fail, "init.restore.queue");
+    for (const c of queue) {
+      if (!inBounds(commandTile(c))) {
+        fail(`init.restore.queue: ${c.type} targets a tile outside the grid`);
+      }
+    }
+    restore = { towers, carrying, queue };
+  }
+
+  if (!Array.isArray(raw.inputs)) return fail("inputs missing");
+  const inputs = raw.inputs.map(parseInput);
+  for (let i = 1; i < inputs.length; i++) {
+    if (inputs[i].tick < inputs[i - 1].tick) return fail("inputs are not in tick order");
+  }
+
+  const lastTick = inputs.length > 0 ? inputs[inputs.length - 1].tick : 0;
+  const endTick = isInt(raw.endTick) ? Math.max(raw.endTick, lastTick) : lastTick;
+
+  return {
+    format: REPLAY_LOG_FORMAT,
+    version: REPLAY_LOG_VERSION,
+    init: {
+      grid,
+      towers: init.towers,
+      dollyTile: init.dollyTile,
+      motion: parseMotion(init.motion),
+      tickRate,
+      pathAlgorithm,
+      ...(init.asyncPlanning ? { asyncPlanning: true } : {}),
+      ...(restore ? { restore } : {}),
+    },
+    inputs,
+    endTick,
+  };
+};
@@ -0,0 +1,164 @@
+// src/app/world/sim/schema.ts
+// Guards for untrusted JSON (replay logs, world snapshots, scenarios).
+// Readers get a `fail` bound to their file kind so messages say where it broke.
+
+import type { GridConfig, Tile, TileCost, TileId, Tower, TowerId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { MAX_TILE_COST, parseTileId } from "../grid/gridMath";
+import { GRID_LIMITS } from "../grid/resizeGrid";
+import type { Edge } from "../pathfinding/neighbors";
+import { edgeBetween, edgeKey } from "../pathfinding/neighbors";
+import type { Command } from "./commands";
+
+export type Fail = (msg: string) => never;
+
+export const failWith =
+  (label: string): Fail =>
+  (msg) => {
+    throw new Error(`${label}: ${msg}`);
+  };
+
+export const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+export const isInt = (v: unknown): v is number => Number.isInteger(v);
+
+export const isTile = (v: unknown): v is Tile => isObject(v) && isInt(v.x) && isInt(v.z);
+
+export const isCommand = (v: unknown): v is Command => {
+  if (!isObject(v)) return false;
+  switch (v.type) {
+    case "MOVE_TO":
+      return isTile(v.to);
+    case "LIFT":
+    case "DROP":
+    case "SWAP":
+      return isTile(v.tile);
+    default:
+      return false;
+  }
+};
+
+export const tileInGrid = (t: Tile, grid: GridConfig): boolean =>
+  t.x >= 0 && t.z >= 0 && t.x < grid.cols && t.z < grid.rows;
+
+/** Strip unknown keys so the result is exactly a GridConfig. */
+export const parseGrid = (v: unknown, fail: Fail, at: string = "grid"): GridConfig => {
+  if (!isObject(v)) return fail(`${at} missing`);
+  const { rows, cols, tileSize, origin } = v;
+  if (!isInt(rows) || rows <= 0 || !isInt(cols) || cols <= 0) {
+    return fail(`${at} rows/cols must be positive integers`);
+  }
+  const { minSide, maxSide } = GRID_LIMITS;
+  if (rows < minSide || rows > maxSide || cols < minSide || cols > maxSide) {
+    return fail(`${at} is ${cols}×${rows}; each side must be ${minSide}–${maxSide} tiles`);
+  }
+  if (typeof tileSize !== "number" || !(tileSize > 0)) {
+    return fail(`${at}.tileSize must be > 0`);
+  }
+  if (
+    !isObject(origin) ||
+    typeof origin.x !== "number" ||
+    typeof origin.y !== "number" ||
+    typeof origin.z !== "number"
+  ) {
+    return fail(`${at}.origin must be {x, y, z}`);
+  }
+
+  const grid: GridConfig = {
+    rows,
+    cols,
+    tileSize,
+    origin: { x: origin.x, y: origin.y, z: origin.z },
+  };
+  const blocked = v.blocked === undefined ? [] : parseTiles(v.blocked, grid, fail, `${at}.blocked`);
+  const voids = v.voids === undefined ? [] : parseTiles(v.voids, grid, fail, `${at}.voids`);
+  const walls = v.walls === undefined ? [] : parseWalls(v.walls, grid, fail, `${at}.walls`);
+  const costs = v.costs === undefined ? [] : parseCosts(v.costs, grid, fail, `${at}.costs`);
+
+  const blockedIds = new Set(blocked.map((t) => toTileId(t)));
+  for (const t of voids) {
+    if (blockedIds.has(toTileId(t))) fail(`${at}: tile ${toTileId(t)} is both blocked and void`);
+  }
+
+  return {
+    ...grid,
+    ...(v.blocked !== undefined ? { blocked } : {}),
+    ...(v.voids !== undefined ? { voids } : {}),
+    ...(v.walls !== undefined ? { walls } : {}),
+    ...(v.costs !== undefined ? { costs } : {}),
+  };
+};
+
+export const parseTower = (v: unknown, fail: Fail, at: string): Tower => {
+  if (!isObject(v) || typeof v.id !== "string" || v.id.length === 0) {
+    return fail(`${at} needs a string id`);
+  }
+  if (!isTile(v.tile)) return fail(`${at}.tile must be {x, z}`);
+  if (typeof v.height !== "number" || !(v.height > 0)) return fail(`${at}.height must be > 0`);
+  return { id: v.id as TowerId, tile: { x: v.tile.x, z: v.tile.z }, height: v.height };
+};
+
+export const parseCommands = (v: unknown, fail: Fail, at: string): Command[] => {
+  if (!Array.isArray(v) || !v.every(isCommand)) {
+    return fail(`${at} contains an invalid command`);
+  }
+  return v;
+};
+
+/** In-bounds tile list, no duplicates. */
+export const parseTiles = (v: unknown, grid: GridConfig, fail: Fail, at: string): Tile[] => {
+  if (!Array.isArray(v) || !v.every(isTile)) return fail(`${at} must be a list of {x, z}`);
+
+  const seen = new Set<string>();
+  return v.map((t, i) => {
+    if (!tileInGrid(t, grid)) fail(`${at}[${i}] is outside the grid`);
+    const key = toTileId(t);
+    if (seen.has(key)) fail(`${at} lists tile ${key} twice`);
+    seen.add(key);
+    return { x: t.x, z: t.z };
+  });
+};
+
+const TILE_ID = /^\d+:\d+$/;
+
+/** Edges between in-bounds, 4-adjacent tiles; normalized (axis re-derived), no duplicates. */
+export const parseWalls = (v: unknown, grid: GridConfig, fail: Fail, at: string): Edge[] => {
+  if (!Array.isArray(v)) return fail(`${at} must be a list of {a, b} edges`);
+
+  const seen = new Set<string>();
+  return v.map((w, i) => {
+    if (!isObject(w) || typeof w.a !== "string" || typeof w.b !== "string") {
+      return fail(`${at}[${i}] must be {a: "x:z", b: "x:z"}`);
+    }
+    if (!TILE_ID.test(w.a) || !TILE_ID.test(w.b)) return fail(`${at}[${i}] has a bad tile id`);
+
+    const p = parseTileId(w.a as TileId);
+    const q = parseTileId(w.b as TileId);
+    if (!tileInGrid(p, grid) || !tileInGrid(q, grid)) fail(`${at}[${i}] is outside the grid`);
+
+    const edge = edgeBetween(p, q) ?? fail(`${at}[${i}] joins tiles that are not adjacent`);
+    const key = edgeKey(edge);
+    if (seen.has(key)) fail(`${at} lists edge ${key} twice`);
+    seen.add(key);
+    return edge;
+  });
+};
+
+/** Weighted tiles: in-bounds, no duplicates, 1 <= cost <= MAX_TILE_COST. */
+export const parseCosts = (v: unknown, grid: GridConfig, fail: Fail, at: string): TileCost[] => {
+  if (!Array.isArray(v)) return fail(`${at} must be a list of {tile, cost}`);
+
+  const tiles = parseTiles(
+    v.map((c) => (isObject(c) ? c.tile : undefined)),
+    grid,
+    fail,
+    at
+  );
+  return v.map((c: { cost?: unknown }, i) => {
+    if (typeof c.cost !== "number" || !(c.cost >= 1 && c.cost <= MAX_TILE_COST)) {
+      return fail(`${at}[${i}].cost must be between 1 and ${MAX_TILE_COST}`);
+    }
+    return { tile: tiles[i], cost: c.cost };
+  });
+};
@@ -0,0 +1,108 @@
+// src/app/world/sim/timeline.ts
+// Lockstep simulation clock.
+//
+// Sim time only ever moves in whole ticks of 1 / tickRate seconds, so the same
+// command queue produces the same tick-by-tick history regardless of frame rate.
+// Wall time is only used to decide HOW MANY ticks to run; the leftover fraction
+// (alpha) is exposed for render interpolation.
+
+export const DEFAULT_TICK_RATE = 60;
+
+// Cap on wall time consumed per advance() (tab throttling / breakpoints).
+// Anything beyond this is dropped rather than replayed as a burst of ticks.
+export const MAX_WALL_DT = 0.25;
+
+export type TimelineConfig = Readonly<{
+  tickRate?: number; // ticks per sim second
+  maxWallDt?: number;
+}>;
+
+export type ClockState = Readonly<{
+  tick: number;
+  simTime: number; // seconds, = tick / tickRate
+  wallTime: number; // seconds of wall time fed while running
+  tickRate: number;
+  paused: boolean;
+}>;
+
+export type Timeline = Readonly<{
+  tickRate: number;
+  dt: number; // fixed seconds per tick
+
+  getClock: () => ClockState;
+
+  /** Fraction [0, 1) of the next tick already elapsed in wall time. */
+  getAlpha: () => number;
+
+  /** Feed wall-clock seconds; runs as many whole ticks as fit. Returns ticks run. */
+  advance: (wallDt: number) => number;
+
+  /** Run exactly n ticks, paused or not. */
+  stepTicks: (n: number) => void;
+
+  pause: () => void;
+  resume: () => void;
+}>;
+
+export const createTimeline = (
+  onTick: (tick: number, dt: number) => void,
+  { tickRate = DEFAULT_TICK_RATE, maxWallDt = MAX_WALL_DT }: TimelineConfig = {}
+): Timeline => {
+  if (!(tickRate > 0)) throw new Error(`timeline: invalid tickRate ${tickRate}`);
+
+  const dt = 1 / tickRate;
+
+  let tick = 0;
+  let wallTime = 0;
+  let accumulator = 0;
+  let paused = false;
+
+  const runTick = () => {
+    tick += 1;
+    onTick(tick, dt);
+  };
+
+  const advance = (wallDt: number): number => {
+    if (paused) return 0;
+    if (!Number.isFinite(wallDt) || wallDt <= 0) return 0;
+
+    const clamped = Math.min(wallDt, maxWallDt);
+    wallTime += clamped;
+    accumulator += clamped;
+
+    let ran = 0;
+    while (accumulator >= dt) {
+      accumulator -= dt;
+      runTick();
+      ran++;
+    }
+    return ran;
+  };
+
+  const stepTicks = (n: number) => {
+    const count = Math.max(0, Math.floor(n));
+    for (let i = 0; i < count; i++) runTick();
+  };
+
+  return {
+    tickRate,
+    dt,
+    getClock: () => ({
+      tick,
+      simTime: tick * dt,
+      wallTime,
+      tickRate,
+      paused,
+    }),
+    getAlpha: () => (paused ? 0 : accumulator / dt),
+    advance,
+    stepTicks,
+    pause: () => {
+      paused = true;
+      accumulator = 0;
+    },
+    resume: () => {
+      paused = false;
+    },
+  };
+};
@@ -0,0 +1,193 @@
+//layoutGenerators.ts
+//Layout layer: registry of seeded tower layout generators
+//
+// Every generator is pure: (grid, count, seed) => the same tiles on every machine.
+// Blocked/void tiles and `avoid` tiles (e.g. the dolly) are never used. A generator may
+// return fewer than `count` tiles when the grid cannot fit more under its rules.
+
+import type { GridConfig, Tile, TileId } from "../grid/gridTypes";
+import { toTileId } from "../grid/gridTypes";
+import { allTiles, buildClosedSet } from "../grid/gridMath";
+import type { Rng } from "./seededRandom";
+import { createRng } from "./seededRandom";
+import { generateTowerTiles } from "./towerLocations";
+
+export type LayoutGeneratorId = "LATTICE" | "RANDOM" | "CLUSTERED" | "ROW_AISLES" | "PERIMETER";
+
+export type LayoutParams = Readonly<{
+  count: number;
+  seed: number;
+  avoid?: ReadonlyArray<Tile>;
+}>;
+
+export type LayoutGenerator = Readonly<{
+  id: LayoutGeneratorId;
+  label: string;
+  usesSeed: boolean; // false => seed is ignored (fully determined by grid + count)
+  generate: (grid: GridConfig, params: LayoutParams) => Tile[];
+}>;
+
+// Minimum free ring (Chebyshev tiles) between random towers / between clusters
+const RANDOM_BUFFER = 1;
+const CLUSTER_W = 2;
+const CLUSTER_H = 2;
+// Warehouse: a cross aisle every N columns
+const CROSS_AISLE_EVERY = 6;
+
+// --------------------------
+// Helpers
+// --------------------------
+const openFilter = (grid: GridConfig, avoid: readonly Tile[] = []) => {
+  const closed = new Set<TileId>([...buildClosedSet(grid), ...avoid.map((t) => toTileId(t))]);
+  return (t: Tile) =>
+    t.x >= 0 && t.z >= 0 && t.x < grid.cols && t.z < grid.rows && !closed.has(toTileId(t));
+};
+
+const rowMajor = (a: Tile, b: Tile) => a.z - b.z || a.x - b.x;
+
+const ring = (t: Tile, r: number): Tile[] => {
+  const out: Tile[] = [];
+  for (let dz = -r; dz <= r; dz++) {
+    for (let dx = -r; dx <= r; dx++) out.push({ x: t.x + dx, z: t.z + dz });
+  }
+  return out;
+};
+
+/** Seeded pick of `count` candidates, returned in row-major order. */
+const pickSubset = (rng: Rng, candidates: readonly Tile[], count: number): Tile[] =>
+  candidates.length <= count
+    ? [...candidates].sort(rowMajor)
+    : rng.shuffle(candidates).slice(0, count).sort(rowMajor);
+
+// --------------------------
+// Generators
+// --------------------------
+const lattice: LayoutGenerator = {
+  id: "LATTICE",
+  label: "Lattice",
+  usesSeed: false,
+  generate: (grid, { count, avoid }) => {
+    const isOpen = openFilter(grid, avoid);
+    return generateTowerTiles(grid, Number.POSITIVE_INFINITY).filter(isOpen).slice(0, count);
+  },
+};
+
+const random: LayoutGenerator = {
+  id: "RANDOM",
+  label: "Random (buffered)",
+  usesSeed: true,
+  generate: (grid, { count, seed, avoid }) => {
+    const rng = createRng(seed);
+    const isOpen = openFilter(grid, avoid);
+    const taken = new Set<TileId>(); // towers + their buffer rings
+    const out: Tile[] = [];
+
+    for (const t of rng.shuffle(allTiles(grid).filter(isOpen))) {
+      if (out.length >= count) break;
+      if (taken.has(toTileId(t))) continue;
+      out.push(t);
+      for (const n of ring(t, RANDOM_BUFFER)) taken.add(toTileId(n));
+    }
+    return out.sort(rowMajor);
+  },
+};
+
+const clustered: LayoutGenerator = {
+  id: "CLUSTERED",
+  label: "Clustered blocks",
+  usesSeed: true,
+  generate: (grid, { count, seed, avoid }) => {
+    const rng = createRng(seed);
+    const isOpen = openFilter(grid, avoid);
+    const reserved = new Set<TileId>(); // blocks + a 1-tile gap around each
+    const out: Tile[] = [];
+
+    const origins = allTiles(grid).filter(
+      (t) => t.x + CLUSTER_W <= grid.cols && t.z + CLUSTER_H <= grid.rows
+    );
+
+    for (const o of rng.shuffle(origins)) {
+      if (out.length >= count) break;
+
+      const block: Tile[] = [];
+      for (let dz = 0; dz < CLUSTER_H; dz++) {
+        for (let dx = 0; dx < CLUSTER_W; dx++) block.push({ x: o.x + dx, z: o.z + dz });
+      }
+      if (!block.every((t) => isOpen(t) && !reserved.has(toTileId(t)))) continue;
+
+      out.push(...block.slice(0, count - out.length));
+      for (const t of block) for (const n of ring(t, 1)) reserved.add(toTileId(n));
+    }
+    return out.sort(rowMajor);
+  },
+};
+
+const rowAisles: LayoutGenerator = {
+  id: "ROW_AISLES",
+  label: "Row aisles (warehouse)",
+  usesSeed: true,
+  generate: (grid, { count, seed, avoid }) => {
+    const isOpen = openFilter(grid, avoid);
+
+    // z: aisle, shelf, shelf, aisle, shelf, shelf, ...  (last row kept as aisle)
+    // x: outer columns + every CROSS_AISLE_EVERY-th column stay free
+    const slots = allTiles(grid).filter(
+      (t) =>
+        t.z % 3 !== 0 &&
+        t.z < grid.rows - 1 &&
+        t.x > 0 &&
+        t.x < grid.cols - 1 &&
+        t.x % CROSS_AISLE_EVERY !== 0 &&
+        isOpen(t)
+    );
+    return pickSubset(createRng(seed), slots, count);
+  },
+};
+
+const perimeter: LayoutGenerator = {
+  id: "PERIMETER",
+  label: "Perimeter",
+  usesSeed: true,
+  generate: (grid, { count, seed, avoid }) => {
+    const isOpen = openFilter(grid, avoid);
+    const minX = 1;
+    const minZ = 1;
+    const maxX = grid.cols - 2;
+    const maxZ = grid.rows - 2;
+    if (maxX < minX || maxZ < minZ) return [];
+
+    // ring one tile in from the edge (outer lane stays drivable), clockwise
+    const loop: Tile[] = [];
+    for (let x = minX; x <= maxX; x++) loop.push({ x, z: minZ });
+    for (let z = minZ + 1; z <= maxZ; z++) loop.push({ x: maxX, z });
+    if (maxZ > minZ) for (let x = maxX - 1; x >= minX; x--) loop.push({ x, z: maxZ });
+    if (maxX > minX) for (let z = maxZ - 1; z > minZ; z--) loop.push({ x: minX, z });
+
+    // every other ring tile so neighbours never touch (odd loops drop the seam tile)
+    const last = loop.length % 2 === 1 ? loop.length - 1 : -1;
+    const slots = loop.filter((t, i) => i % 2 === 0 && i !== last && isOpen(t));
+    return pickSubset(createRng(seed), slots, count);
+  },
+};
+
+export const LAYOUT_GENERATORS: ReadonlyArray<LayoutGenerator> = [
+  lattice,
+  random,
+  clustered,
+  rowAisles,
+  perimeter,
+];
+
+export const DEFAULT_LAYOUT_GENERATOR: LayoutGeneratorId = "LATTICE";
+
+export const getLayoutGenerator = (id: LayoutGeneratorId): LayoutGenerator =>
+  LAYOUT_GENERATORS.find((g) => g.id === id) ?? lattice;
+
+export const generateLayout = (
+  id: LayoutGeneratorId,
+  grid: GridConfig,
+  params: LayoutParams
+): Tile[] => {
+  const count = Math.max(0, Math.floor(params.count));
+  return getLayoutGenerator(id).generate(grid, { ...params, count });
+};
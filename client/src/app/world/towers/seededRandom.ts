@@ -0,0 +1,39 @@
+//seededRandom.ts
+//Deterministic PRNG for layouts (mulberry32): same seed => same numbers on every machine
+
+export type Rng = Readonly<{
+  /** Float in [0, 1). */
+  next: () => number;
+
+  /** Integer in [0, n). */
+  int: (n: number) => number;
+
+  /** Fisher–Yates shuffle into a new array. */
+  shuffle: <T>(items: readonly T[]) => T[];
+}>;
+
+/** Any number works as a seed; it is folded to uint32. */
+export const createRng = (seed: number): Rng => {
+  let a = (Math.floor(seed) >>> 0) || 0x9e3779b9;
+
+  const next = () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (n: number) => Math.floor(next() * n);
+
+  const shuffle = <T>(items: readonly T[]): T[] => {
+    const out = [...items];
+    for (let i = out.length - 1; i > 0; i--) {
+      const j = int(i + 1);
+      [out[i], out[j]] = [out[j], out[i]];
+    }
+    return out;
+  };
+
+  return { next, int, shuffle };
+};
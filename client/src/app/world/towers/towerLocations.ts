@@ -1,8 +1,10 @@
 //towerLocations.ts
 //Layout/Content layerimport type { GridConfig, Tile, TileId } from "../grid/gridTypes";
 
-import type { GridConfig, Tile, TileId } from "../grid/gridTypes";
-import { toTileId } from "../grid/gridTypes";
+import type { GridConfig, Tile, TileId, Tower } from "../grid/gridTypes";
+import { toTileId, toTowerId } from "../grid/gridTypes";
+
+export const DEFAULT_TOWER_HEIGHT = 1;
 
 /**
  * Checkerboard tower lattice:
@@ -27,6 +29,20 @@ export const generateTowerTiles = (
   return towerTiles;
 };
 
+/**
+ * Wrap layout tiles as Tower entities.
+ * Ids are derived from the tile each tower STARTS on and never change as it moves.
+ */
+export const createTowers = (
+  tiles: readonly Tile[],
+  height: number = DEFAULT_TOWER_HEIGHT
+): Tower[] => {
+  return tiles.map((tile) => ({
+    id: toTowerId(toTileId(tile)),
+    tile,
+    height,
+  }));
+};
 
 export const buildTowerSet = (towers: readonly Tile[]): ReadonlySet<TileId> => {
   return new Set(towers.map((t) => toTileId(t)))
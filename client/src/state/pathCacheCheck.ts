@@ -0,0 +1,114 @@
+// src/state/pathCacheCheck.ts
+// Self-check for the path caches: the LRU itself, the plan host's keys (what the
+// worker answers the runner and previews from) and the kernel's inline planPath.
+//
+// Each check is a yes/no on one promise the cache makes; `failed` counts the
+// noes. `npm run bench -- cache`.
+
+import type { GridConfig, TileId } from "../app/world/grid/gridTypes";
+import { paintTileCost } from "../app/world/grid/floorMask";
+import { createPathCache } from "../app/world/pathfinding/pathCache";
+import type { PlanResult } from "../app/world/pathfinding/planner";
+import { CMD } from "../app/world/sim/commands";
+import type { PlanJob } from "../app/world/sim/planJobs";
+import { createPlanHost } from "../app/world/sim/planJobs";
+import { createWorldStore } from "./worldStore";
+
+export type PathCacheCheckResult = Readonly<{
+  lruEvictsLeastRecent: boolean; // a read refreshes an entry; the stalest one goes first
+  hostHitsRepeat: boolean; // the same job over the same towers is answered from the cache
+  hostKeysMode: boolean; // NORMAL and TRANSPORT never share an entry
+  hostKeysAlgorithm: boolean; // nor do two planners
+  hostInvalidatesOnTowers: boolean; // a different tower set misses
+  hostIgnoresTowerOrder: boolean; // the same set listed in another order hits
+  hostKeysGrid: boolean; // hosts sharing a cache miss across different floors
+  kernelHitsRepeat: boolean;
+  kernelKeysModeAndAlgorithm: boolean;
+  kernelInvalidatesOnLift: boolean; // lifting a tower changes the fingerprint
+  failed: number;
+}>;
+
+const GRID: GridConfig = { rows: 10, cols: 10, tileSize: 1, origin: { x: 0, y: 0, z: 0 } };
+
+const dummy = (expanded: number): PlanResult => ({ path: [], cost: 0, expanded });
+
+const checkLru = (): boolean => {
+  const cache = createPathCache(3);
+  cache.set("a", dummy(1));
+  cache.set("b", dummy(2));
+  cache.set("c", dummy(3));
+  cache.get("a"); // b is now the least recently used
+  cache.set("d", dummy(4));
+
+  const evictedB = cache.get("b") === undefined;
+  const keptRest = ["a", "c", "d"].every((k) => cache.get(k) !== undefined);
+  const { evictions, size } = cache.stats();
+  return evictedB && keptRest && evictions === 1 && size === 3;
+};
+
+const checkHost = () => {
+  const cache = createPathCache();
+  const host = createPlanHost(GRID, cache);
+  const towers = ["4:4", "5:5", "2:7"] as TileId[];
+  const job: PlanJob = {
+    kind: "PATH",
+    mode: "NORMAL",
+    algorithm: "ASTAR",
+    from: { x: 0, z: 0 },
+    to: { x: 9, z: 9 },
+  };
+
+  // did running `j` over `t` on `h` hit the cache?
+  const hits = (j: PlanJob, t: readonly TileId[], h = host) => {
+    const before = cache.stats().hits;
+    h.run(j, t);
+    return cache.stats().hits > before;
+  };
+
+  hits(job, towers);
+  const other = createPlanHost(paintTileCost(GRID, { x: 3, z: 3 }, 4), cache);
+  return {
+    hostHitsRepeat: hits(job, towers),
+    hostKeysMode: !hits({ ...job, mode: "TRANSPORT" }, towers),
+    hostKeysAlgorithm: !hits({ ...job, algorithm: "DIJKSTRA" }, towers),
+    hostInvalidatesOnTowers: !hits(job, ["4:4", "5:5"] as TileId[]),
+    hostIgnoresTowerOrder: hits(job, [...towers].reverse()),
+    hostKeysGrid: !hits(job, towers, other),
+  };
+};
+
+const checkKernel = () => {
+  const store = createWorldStore({
+    grid: GRID,
+    towers: [{ x: 4, z: 4 }, { x: 5, z: 5 }],
+    dollyTile: { x: 0, z: 0 },
+  });
+  store.timeline.pause();
+
+  const from = { x: 0, z: 0 };
+  const to = { x: 9, z: 9 };
+  const hits = (plan: () => void) => {
+    const before = store.getPathCacheStats().hits;
+    plan();
+    return store.getPathCacheStats().hits > before;
+  };
+
+  store.planPath("ASTAR", from, to, "NORMAL");
+  const kernelHitsRepeat = hits(() => store.planPath("ASTAR", from, to, "NORMAL"));
+  const kernelKeysModeAndAlgorithm =
+    !hits(() => store.planPath("ASTAR", from, to, "TRANSPORT")) &&
+    !hits(() => store.planPath("BFS", from, to, "NORMAL"));
+
+  store.dispatch([CMD.moveTo({ x: 4, z: 4 }), CMD.lift({ x: 4, z: 4 })]);
+  store.timeline.stepTicks(900);
+  const lifted = store.getState().carrying !== null;
+  const kernelInvalidatesOnLift = lifted && !hits(() => store.planPath("ASTAR", from, to, "NORMAL"));
+
+  store.dispose();
+  return { kernelHitsRepeat, kernelKeysModeAndAlgorithm, kernelInvalidatesOnLift };
+};
+
+export const checkPathCache = (): PathCacheCheckResult => {
+  const checks = { lruEvictsLeastRecent: checkLru(), ...checkHost(), ...checkKernel() };
+  return { ...checks, failed: Object.values(checks).filter((ok) => !ok).length };
+};
@@ -0,0 +1,220 @@
+// src/state/shareLink.ts
+// Layout (+ optional pending commands) packed into the URL hash, no server needed.
+//
+//   #v=1&g=15x11&b=6.0_6.1&t=2.2_4.2&d=7.5&h=3.3&q=M7.5_L2.2&cam=SIM.CHASE.TRACK
+//
+//   g    cols x rows (x tileSize when not the default)
+//   b    blocked tiles          n  void (no floor) tiles
+//   w    walls: tile + X (wall on its east side) or Z (south side), e.g. 3.4X
+//   c    weighted tiles: tile-cost, e.g. 3.4-2
+//   t    placed tower tiles     d  dolly tile
+//   h    carried tower origin   q  commands: M move, L lift, D drop, S swap
+//   cam  active view . sim cam . world cam (. nogrid when the overlay is off)
+//
+// Tiles are "x.z" joined by "_" so nothing needs percent-encoding. Tower ids and
+// heights are not kept: ids are re-derived from the tiles, heights default.
+
+import type { GridConfig, Tile } from "../app/world/grid/gridTypes";
+import type { WorldState } from "./worldState";
+import { DEFAULT_GRID, toTileId } from "../app/world/grid/gridTypes";
+import { buildClosedSet, parseTileId } from "../app/world/grid/gridMath";
+import type { Edge } from "../app/world/pathfinding/neighbors";
+import type { Command } from "../app/world/sim/commands";
+import { CMD, commandTile } from "../app/world/sim/commands";
+import type { MotionParams } from "../app/world/sim/dollyMotion";
+import { failWith, parseGrid, parseTiles, tileInGrid } from "../app/world/sim/schema";
+import { createTowers } from "../app/world/towers/towerLocations";
+import type { SnapshotView } from "./worldSnapshot";
+import { ACTIVE_VIEWS, SIM_CAM_MODES, WORLD_CAM_MODES, pendingCommands } from "./worldSnapshot";
+import type { WorldStoreInit } from "./worldStore";
+
+export const SHARE_LINK_VERSION = 1;
+
+export type ShareLink = Readonly<{
+  grid: GridConfig;
+  towers: ReadonlyArray<Tile>;
+  dollyTile: Tile;
+  carrying: Tile | null;
+  queue: ReadonlyArray<Command>;
+  view: SnapshotView;
+}>;
+
+const CMD_CODES = { MOVE_TO: "M", LIFT: "L", DROP: "D", SWAP: "S" } as const;
+
+const encodeTile = (t: Tile) => `${t.x}.${t.z}`;
+const encodeTiles = (tiles: readonly Tile[]) => tiles.map(encodeTile).join("_");
+const encodeWalls = (walls: readonly Edge[]) =>
+  walls.map((w) => encodeTile(parseTileId(w.a)) + w.axis).join("_");
+
+export const captureShareLink = (
+  state: WorldState,
+  view: SnapshotView,
+  includeQueue: boolean
+): ShareLink => ({
+  grid: state.grid,
+  towers: state.towers.map((t) => t.tile),
+  dollyTile: state.dolly.tile,
+  carrying: state.carrying?.tile ?? null,
+  queue: includeQueue ? pendingCommands(state) : [],
+  view,
+});
+
+/** Hash string including the leading "#". */
+export const encodeShareHash = (link: ShareLink): string => {
+  const { grid, view } = link;
+  const p = new URLSearchParams();
+
+  p.set("v", String(SHARE_LINK_VERSION));
+  p.set(
+    "g",
+    grid.tileSize === DEFAULT_GRID.tileSize
+      ? `${grid.cols}x${grid.rows}`
+      : `${grid.cols}x${grid.rows}x${grid.tileSize}`
+  );
+  if (grid.blocked && grid.blocked.length > 0) p.set("b", encodeTiles(grid.blocked));
+  if (grid.voids && grid.voids.length > 0) p.set("n", encodeTiles(grid.voids));
+  if (grid.walls && grid.walls.length > 0) p.set("w", encodeWalls(grid.walls));
+  if (grid.costs && grid.costs.length > 0) {
+    p.set("c", grid.costs.map((c) => `${encodeTile(c.tile)}-${c.cost}`).join("_"));
+  }
+  p.set("t", encodeTiles(link.towers));
+  p.set("d", encodeTile(link.dollyTile));
+  if (link.carrying) p.set("h", encodeTile(link.carrying));
+  if (link.queue.length > 0) {
+    p.set("q", link.queue.map((c) => CMD_CODES[c.type] + encodeTile(commandTile(c))).join("_"));
+  }
+  p.set(
+    "cam",
+    [view.activeView, view.simCamMode, view.worldCamMode, ...(view.showGrid ? [] : ["nogrid"])].join(".")
+  );
+
+  return `#${p.toString()}`;
+};
+
+// --------------------------
+// Decoding (anything pasted into the address bar)
+// --------------------------
+const fail = failWith("share link");
+
+const decodeTile = (s: string, at: string): Tile => {
+  const m = /^(\d+)\.(\d+)$/.exec(s);
+  if (!m) return fail(`${at}: bad tile "${s}"`);
+  return { x: Number(m[1]), z: Number(m[2]) };
+};
+
+const decodeTiles = (s: string | null, at: string): Tile[] =>
+  s ? s.split("_").map((part) => decodeTile(part, at)) : [];
+
+// Back to the {a, b} shape parseGrid validates (bounds, duplicates)
+const decodeWalls = (s: string | null) =>
+  (s ? s.split("_") : []).map((part) => {
+    const axis = part.slice(-1);
+    if (axis !== "X" && axis !== "Z") return fail(`w: bad wall "${part}"`);
+    const a = decodeTile(part.slice(0, -1), "w");
+    const b = axis === "X" ? { x: a.x + 1, z: a.z } : { x: a.x, z: a.z + 1 };
+    return { a: toTileId(a), b: toTileId(b) };
+  });
+
+// Back to the {tile, cost} shape parseGrid validates (range, duplicates)
+const decodeCosts = (s: string | null) =>
+  (s ? s.split("_") : []).map((part) => {
+    const [tile, cost] = part.split("-");
+    if (cost === undefined) return fail(`c: bad cost "${part}"`);
+    return { tile: decodeTile(tile, "c"), cost: Number(cost) };
+  });
+
+const decodeCommand = (s: string): Command => {
+  const tile = decodeTile(s.slice(1), "q");
+  switch (s[0]) {
+    case "M":
+      return CMD.moveTo(tile);
+    case "L":
+      return CMD.lift(tile);
+    case "D":
+      return CMD.drop(tile);
+    case "S":
+      return CMD.swap(tile);
+    default:
+      return fail(`q: unknown command "${s}"`);
+  }
+};
+
+const decodeView = (s: string | null): SnapshotView => {
+  const [activeView, simCamMode, worldCamMode, grid] = (s ?? "").split(".");
+  return {
+    activeView: ACTIVE_VIEWS.find((v) => v === activeView) ?? "SIM",
+    simCamMode: SIM_CAM_MODES.find((m) => m === simCamMode) ?? "CHASE",
+    worldCamMode: WORLD_CAM_MODES.find((m) => m === worldCamMode) ?? "CENTER_OVERVIEW",
+    showGrid: grid !== "nogrid",
+  };
+};
+
+/**
+ * Decode a location hash. Returns null when the hash carries no layout at all;
+ * throws with a readable message when it does but is malformed.
+ */
+export const decodeShareHash = (hash: string): ShareLink | null => {
+  const p = new URLSearchParams(hash.replace(/^#/, ""));
+  if (!p.has("g")) return null;
+
+  const version = Number(p.get("v"));
+  if (version !== SHARE_LINK_VERSION) {
+    return fail(`unsupported version ${p.get("v")} (expected ${SHARE_LINK_VERSION})`);
+  }
+
+  const g = /^(\d+)x(\d+)(?:x(\d+(?:\.\d+)?))?$/.exec(p.get("g") ?? "");
+  if (!g) return fail(`g: expected <cols>x<rows>, got "${p.get("g")}"`);
+
+  const size = { cols: Number(g[1]), rows: Number(g[2]) };
+  const blocked = decodeTiles(p.get("b"), "b");
+  const voids = decodeTiles(p.get("n"), "n");
+  const walls = decodeWalls(p.get("w"));
+  const costs = decodeCosts(p.get("c"));
+  const grid = parseGrid(
+    {
+      ...size,
+      tileSize: g[3] ? Number(g[3]) : DEFAULT_GRID.tileSize,
+      origin: DEFAULT_GRID.origin,
+      ...(blocked.length > 0 ? { blocked } : {}),
+      ...(voids.length > 0 ? { voids } : {}),
+      ...(walls.length > 0 ? { walls } : {}),
+      ...(costs.length > 0 ? { costs } : {}),
+    },
+    fail,
+    "g"
+  );
+
+  const closed = buildClosedSet(grid);
+  const towers = parseTiles(decodeTiles(p.get("t"), "t"), grid, fail, "t");
+  if (towers.some((t) => closed.has(toTileId(t)))) fail("t: tower on a blocked or void tile");
+
+  const dollyTile = decodeTile(p.get("d") ?? "", "d");
+  if (!tileInGrid(dollyTile, grid)) return fail("d: dolly tile is outside the grid");
+  if (closed.has(toTileId(dollyTile))) return fail("d: dolly tile is blocked or void");
+
+  const h = p.get("h");
+  const carrying = h ? decodeTile(h, "h") : null;
+  if (carrying && towers.some((t) => toTileId(t) === toTileId(carrying))) {
+    return fail("h: carried tower origin is also a placed tower tile");
+  }
+
+  const q = p.get("q");
+  const queue = q ? q.split("_").map(decodeCommand) : [];
+  for (const c of queue) {
+    if (!tileInGrid(commandTile(c), grid)) fail(`q: ${c.type} targets a tile outside the grid`);
+  }
+
+  return { grid, towers, dollyTile, carrying, queue, view: decodeView(p.get("cam")) };
+};
+
+export const shareLinkToInit = (link: ShareLink, motion?: MotionParams): WorldStoreInit => ({
+  grid: link.grid,
+  towers: link.towers,
+  dollyTile: link.dollyTile,
+  motion,
+  restore: {
+    towers: createTowers(link.towers),
+    carrying: link.carrying ? createTowers([link.carrying])[0] : null,
+    queue: link.queue,
+  },
+});
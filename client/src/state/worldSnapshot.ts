@@ -0,0 +1,223 @@
+// src/state/worldSnapshot.ts
+// Versioned save file for the whole world + the camera setup it was viewed with.
+//
+// A snapshot is a resting state: an in-flight move or half-run macro is saved
+// as the commands still needed to finish it, so loading resumes the same work.
+// Undo history is not saved.
+
+import type { GridConfig, Tile, Tower } from "../app/world/grid/gridTypes";
+import type { WorldState } from "./worldState";
+import { toTileId } from "../app/world/grid/gridTypes";
+import { buildClosedSet } from "../app/world/grid/gridMath";
+import type { PathAlgorithm } from "../app/world/pathfinding/findPath";
+import { PLANNER_REGISTRY } from "../app/world/pathfinding/findPath";
+import type { Command } from "../app/world/sim/commands";
+import { CMD, commandTile } from "../app/world/sim/commands";
+import type { MotionParams } from "../app/world/sim/dollyMotion";
+import {
+  failWith,
+  isInt,
+  isObject,
+  isTile,
+  parseCommands,
+  parseGrid,
+  parseTower,
+  tileInGrid,
+} from "../app/world/sim/schema";
+import type { ActiveView, SimCamMode, WorldCamMode } from "../app/ui/ControlPanel";
+import type { WorldStoreInit } from "./worldStore";
+
+export const WORLD_SNAPSHOT_FORMAT = "dolly-grid-world";
+export const WORLD_SNAPSHOT_VERSION = 2;
+
+export const ACTIVE_VIEWS: readonly ActiveView[] = ["SIM", "WORLD"];
+export const SIM_CAM_MODES: readonly SimCamMode[] = [
+  "CHASE",
+  "LEAD",
+  "PATH_START",
+  "DESTINATION_TILE",
+  "TOP_DOWN",
+  "DOLLY",
+  "STATIC_CENTER",
+];
+export const WORLD_CAM_MODES: readonly WorldCamMode[] = ["TRACK", "LANE", "CENTER_OVERVIEW"];
+
+export type SnapshotView = Readonly<{
+  activeView: ActiveView;
+  simCamMode: SimCamMode;
+  worldCamMode: WorldCamMode;
+  showGrid: boolean;
+}>;
+
+export type WorldSnapshot = Readonly<{
+  format: typeof WORLD_SNAPSHOT_FORMAT;
+  version: typeof WORLD_SNAPSHOT_VERSION;
+  grid: GridConfig;
+  towers: ReadonlyArray<Tower>; // placed towers
+  dollyTile: Tile;
+  carrying: Tower | null; // tile = where it was lifted from
+  queue: ReadonlyArray<Command>; // pending work, in execution order
+  pathAlgorithm: PathAlgorithm;
+  view: SnapshotView;
+}>;
+
+/** Work still owed by the runner, flattened into plain commands. */
+export const pendingCommands = (state: WorldState): Command[] => {
+  const out: Command[] = [];
+
+  // the in-flight MOVE_TO was already consumed from the queue / macro
+  if (state.path.length >= 2) out.push(CMD.moveTo(state.path[state.path.length - 1]));
+
+  const m = state.macro;
+  if (m) out.push(...m.steps.slice(m.index));
+
+  out.push(...state.queue);
+  return out;
+};
+
+export const captureSnapshot = (state: WorldState, view: SnapshotView): WorldSnapshot => ({
+  format: WORLD_SNAPSHOT_FORMAT,
+  version: WORLD_SNAPSHOT_VERSION,
+  grid: state.grid,
+  towers: state.towers,
+  dollyTile: state.dolly.tile,
+  carrying: state.carrying,
+  queue: pendingCommands(state),
+  pathAlgorithm: state.pathAlgorithm,
+  view,
+});
+
+export const snapshotToInit = (
+  snapshot: WorldSnapshot,
+  motion?: MotionParams
+): WorldStoreInit => ({
+  grid: snapshot.grid,
+  towers: snapshot.towers.map((t) => t.tile),
+  dollyTile: snapshot.dollyTile,
+  motion,
+  pathAlgorithm: snapshot.pathAlgorithm,
+  restore: {
+    towers: snapshot.towers,
+    carrying: snapshot.carrying,
+    queue: snapshot.queue,
+  },
+});
+
+export const serializeWorldSnapshot = (snapshot: WorldSnapshot): string =>
+  JSON.stringify(snapshot, null, 2);
+
+// --------------------------
+// Migration
+// Each entry upgrades a raw file from version `key` to `key + 1`.
+// Bumping WORLD_SNAPSHOT_VERSION means adding the step from the old version here.
+// --------------------------
+type RawSnapshot = Record<string, unknown>;
+
+const MIGRATIONS: Readonly<Record<number, (raw: RawSnapshot) => RawSnapshot>> = {
+  // v1 files saved before the planner selector have no pathAlgorithm (they ran BFS);
+  // queue and view.showGrid could be left out. v2 spells all three out.
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    pathAlgorithm: raw.pathAlgorithm ?? "BFS",
+    queue: raw.queue ?? [],
+    view: isObject(raw.view) ? { ...raw.view, showGrid: raw.view.showGrid !== false } : raw.view,
+  }),
+};
+
+const fail = failWith("world snapshot");
+
+const migrate = (raw: RawSnapshot): RawSnapshot => {
+  let version = raw.version;
+  if (!isInt(version) || version < 1) return fail("missing version");
+  if (version > WORLD_SNAPSHOT_VERSION) {
+    return fail(`version ${version} is newer than this app (${WORLD_SNAPSHOT_VERSION})`);
+  }
+
+  let out = raw;
+  while (version < WORLD_SNAPSHOT_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return fail(`no migration from version ${version}`);
+    out = step(out);
+    version += 1;
+  }
+  return out;
+};
+
+// --------------------------
+// Parsing (untrusted file contents)
+// --------------------------
+const oneOf = <T extends string>(v: unknown, options: readonly T[], at: string): T => {
+  if (typeof v === "string" && (options as readonly string[]).includes(v)) return v as T;
+  return fail(`${at} must be one of ${options.join(", ")}`);
+};
+
+const parseView = (v: unknown): SnapshotView => {
+  if (!isObject(v)) return fail("view missing");
+  return {
+    activeView: oneOf(v.activeView, ACTIVE_VIEWS, "view.activeView"),
+    simCamMode: oneOf(v.simCamMode, SIM_CAM_MODES, "view.simCamMode"),
+    worldCamMode: oneOf(v.worldCamMode, WORLD_CAM_MODES, "view.worldCamMode"),
+    showGrid:
+      typeof v.showGrid === "boolean" ? v.showGrid : fail("view.showGrid must be true or false"),
+  };
+};
+
+/** Parse, migrate and validate a snapshot file. Throws with a readable message. */
+export const parseWorldSnapshot = (text: string): WorldSnapshot => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return fail("not valid JSON");
+  }
+
+  if (!isObject(parsed) || parsed.format !== WORLD_SNAPSHOT_FORMAT) {
+    return fail("not a world snapshot");
+  }
+
+  const raw = migrate(parsed);
+  const grid = parseGrid(raw.grid, fail);
+  const inBounds = (t: Tile) => tileInGrid(t, grid);
+  const closed = buildClosedSet(grid);
+
+  if (!Array.isArray(raw.towers)) return fail("towers must be a list");
+  const towers = raw.towers.map((t, i) => parseTower(t, fail, `towers[${i}]`));
+  const carrying = raw.carrying == null ? null : parseTower(raw.carrying, fail, "carrying");
+
+  const ids = new Set<string>();
+  const tiles = new Set<string>();
+  for (const t of carrying ? [...towers, carrying] : towers) {
+    if (ids.has(t.id)) fail(`duplicate tower id ${t.id}`);
+    ids.add(t.id);
+  }
+  for (const t of towers) {
+    if (!inBounds(t.tile)) fail(`tower ${t.id} is outside the grid`);
+    const key = toTileId(t.tile);
+    if (closed.has(key)) fail(`tower ${t.id} is on a blocked or void tile`);
+    if (tiles.has(key)) fail(`two towers on tile ${key}`);
+    tiles.add(key);
+  }
+
+  if (!isTile(raw.dollyTile) || !inBounds(raw.dollyTile)) {
+    return fail("dollyTile must be a tile inside the grid");
+  }
+  if (closed.has(toTileId(raw.dollyTile))) return fail("dollyTile is on a blocked or void tile");
+
+  const queue = parseCommands(raw.queue, fail, "queue");
+  for (const c of queue) {
+    if (!inBounds(commandTile(c))) fail(`queued ${c.type} targets a tile outside the grid`);
+  }
+
+  return {
+    format: WORLD_SNAPSHOT_FORMAT,
+    version: WORLD_SNAPSHOT_VERSION,
+    grid,
+    towers,
+    dollyTile: { x: raw.dollyTile.x, z: raw.dollyTile.z },
+    carrying,
+    queue,
+    pathAlgorithm: oneOf(raw.pathAlgorithm, PLANNER_REGISTRY.map((a) => a.id), "pathAlgorithm"),
+    view: parseView(raw.view),
+  };
+};
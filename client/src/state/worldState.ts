@@ -0,0 +1,28 @@
+// src/state/worldState.ts
+// Published kernel state. Lives beside the kernel rather than in gridTypes, which
+// stays the lowest layer: this type pulls in commands, history and planners.
+
+import type { DollyState, GridConfig, Path, Tile, Tower } from "../app/world/grid/gridTypes";
+import type { Command, MacroProgress } from "../app/world/sim/commands";
+import type { History } from "../app/world/sim/history";
+import type { PathAlgorithm } from "../app/world/pathfinding/findPath";
+
+export type PlanningState = Readonly<{
+  kind: "PATH" | "SWAP";
+  target: Tile;
+}>;
+
+export type WorldState = Readonly<{
+  grid: GridConfig;
+
+  towers: ReadonlyArray<Tower>; // placed towers (carried tower excluded)
+  carrying: Tower | null; // tile = where it was lifted from
+
+  queue: ReadonlyArray<Command>;
+  macro: MacroProgress | null; // macro command currently being executed (not in queue)
+  history: History; // undo / redo stacks of executed LIFT / DROP / SWAP
+  path: Path; // in-flight move (empty when idle)
+  pathAlgorithm: PathAlgorithm; // how MOVE_TO routes are planned
+  planning: PlanningState | null; // head command waiting on an off-thread plan
+  dolly: DollyState;
+}>;
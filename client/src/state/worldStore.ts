@@ -1 +1,827 @@
-//App/state layer
\ No newline at end of file
+// src/state/worldStore.ts
+// World kernel: owns WorldState and executes the command queue.
+// Pure TS — no React / Three imports, so it runs in Node, workers and tests.
+
+import type {
+  DollyState,
+  GridConfig,
+  Path,
+  Tile,
+  Tower,
+  Vec3,
+} from "../app/world/grid/gridTypes";
+import { DOLLY_ID, toTileId } from "../app/world/grid/gridTypes";
+import {
+  buildClosedSet,
+  buildCostFn,
+  tileEquals,
+  tileToWorldCenter,
+} from "../app/world/grid/gridMath";
+import type { Mode } from "../app/world/grid/gridRules";
+import type { Edge } from "../app/world/pathfinding/neighbors";
+import { buildBaseEdges } from "../app/world/pathfinding/neighbors";
+import type { Adjacency } from "../app/world/pathfinding/bfs";
+import type { LiveAdjacency } from "../app/world/pathfinding/liveAdjacency";
+import { createLiveAdjacency } from "../app/world/pathfinding/liveAdjacency";
+import type { PathAlgorithm } from "../app/world/pathfinding/findPath";
+import { DEFAULT_PATH_ALGORITHM, findPath } from "../app/world/pathfinding/findPath";
+import type { PlanResult } from "../app/world/pathfinding/planner";
+import type { PathCacheStats } from "../app/world/pathfinding/pathCache";
+import { createPathCache, obstacleFingerprint } from "../app/world/pathfinding/pathCache";
+import type {
+  Command,
+  CommandResult,
+  CommandResultCode,
+  MacroKind,
+  MoveToCommand,
+  PrimitiveCommand,
+  SwapCommand,
+} from "../app/world/sim/commands";
+import { CMD, commandTile } from "../app/world/sim/commands";
+import { expandSwap } from "../app/world/sim/expandSwap";
+import type { PlanJob, PlanOutcome } from "../app/world/sim/planJobs";
+import { planJobKey, planJobTarget } from "../app/world/sim/planJobs";
+import type { PlanPort } from "../app/world/sim/planClient";
+import type {
+  HistoryEntry,
+  HistorySnapshot,
+  UndoMode,
+  WorldDelta,
+} from "../app/world/sim/history";
+import {
+  EMPTY_HISTORY,
+  inversePlan,
+  moveToFuture,
+  moveToPast,
+  pushEntry,
+  replayPlan,
+} from "../app/world/sim/history";
+import type { MotionParams, Trajectory } from "../app/world/sim/dollyMotion";
+import type { ReplayInput, ReplayLog } from "../app/world/sim/replayLog";
+import { REPLAY_LOG_FORMAT, REPLAY_LOG_VERSION } from "../app/world/sim/replayLog";
+import { buildTrajectory, DEFAULT_MOTION } from "../app/world/sim/dollyMotion";
+import type { Timeline } from "../app/world/sim/timeline";
+import { createTimeline } from "../app/world/sim/timeline";
+import { buildTowerSet, createTowers } from "../app/world/towers/towerLocations";
+import type { WorldState } from "./worldState";
+
+export type WorldEvent =
+  | Readonly<{ type: "RUN_STARTED" }>
+  | Readonly<{ type: "MOVE_STARTED"; path: Path }>
+  | Readonly<{ type: "LIFTED"; tower: Tower }>
+  | Readonly<{ type: "DROPPED"; tower: Tower }>
+  | Readonly<{ type: "MACRO_STARTED"; kind: MacroKind; command: Command; steps: number }>
+  | Readonly<{ type: "HISTORY_APPLIED"; kind: "UNDO" | "REDO"; mode: UndoMode; entry: HistoryEntry }>
+  | Readonly<{ type: "COMMAND_RESULT"; result: CommandResult }>
+  | Readonly<{ type: "DONE" }>;
+
+/** Mid-run world to start from instead of a fresh layout (snapshot load). */
+export type WorldRestore = Readonly<{
+  towers: ReadonlyArray<Tower>; // ids + heights kept as saved
+  carrying: Tower | null;
+  queue: ReadonlyArray<Command>;
+}>;
+
+export type WorldStoreInit = Readonly<{
+  grid: GridConfig;
+  towers: readonly Tile[];
+  dollyTile: Tile;
+  motion?: MotionParams;
+  tickRate?: number;
+  inputs?: ReadonlyArray<ReplayInput>; // scripted inputs (replay), applied at their tick
+  restore?: WorldRestore; // overrides `towers` when present
+  pathAlgorithm?: PathAlgorithm; // initial planner (default BFS)
+  planPort?: PlanPort; // plan MOVE_TO / SWAP off-thread (implies asyncPlanning)
+  asyncPlanning?: boolean; // plans land as PLAN_READY inputs (a replay of such a run plans inline)
+}>;
+
+/** Render-time dolly sample, interpolated between the last two ticks. */
+export type DollySample = Readonly<{
+  position: Vec3;
+  distance: number; // world units travelled along the current path
+  speed: number; // world units / sim second
+  etaSeconds: number | null; // sim seconds left on the current path
+}>;
+
+export type WorldStore = Readonly<{
+  getState: () => WorldState;
+
+  /** Change listener (useSyncExternalStore-compatible). */
+  subscribe: (listener: () => void) => () => void;
+
+  /** Discrete runner events (chips, logs). */
+  onEvent: (listener: (e: WorldEvent) => void) => () => void;
+
+  /** Append commands to the queue. Does not execute anything by itself. */
+  dispatch: (commands: Command | readonly Command[]) => void;
+
+  /** Lockstep clock driving the kernel (advance / pause / resume / stepTicks). */
+  timeline: Timeline;
+
+  /** Run exactly one sim tick. */
+  step: () => void;
+
+  /** Dolly pose for the renderer; does not advance anything. */
+  sampleDolly: () => DollySample;
+
+  /**
+   * Revert / re-apply the latest history entry. Only while idle.
+   * PLAN enqueues the inverse (or forward) LIFT/DROP steps as a macro;
+   * INSTANT restores the entry's snapshot immediately (edit mode).
+   * Returns false when there is nothing to do or the runner is busy.
+   */
+  undo: (mode: UndoMode) => boolean;
+  redo: (mode: UndoMode) => boolean;
+
+  /** Planner for MOVE_TO routes from the next move on (recorded like any input). */
+  setPathAlgorithm: (algorithm: PathAlgorithm) => void;
+
+  /** Adjacency for the current towers; defaults to the carrying-derived mode. */
+  getAdjacency: (mode?: Mode) => Adjacency;
+
+  /**
+   * Plan over the current towers through the kernel's path cache (the runner uses
+   * the same cache when it plans inline). Mode defaults to the carrying-derived one.
+   */
+  planPath: (algorithm: PathAlgorithm, from: Tile, to: Tile, mode?: Mode) => PlanResult;
+  getPathCacheStats: () => PathCacheStats;
+
+  /** Initial layout + every input so far, stamped with its sim tick. */
+  exportLog: () => ReplayLog;
+
+  /** Drop the plan in flight and free the port's worker-side graphs (a later tick re-asks). */
+  dispose: () => void;
+}>;
+
+const makeDolly = (grid: GridConfig, tile: Tile, isMoving: boolean): DollyState => ({
+  id: DOLLY_ID,
+  tile,
+  position: tileToWorldCenter(tile, grid),
+  isMoving,
+  pathIndex: 0,
+  segmentT: 0,
+});
+
+const towerAt = (towers: readonly Tower[], tile: Tile): Tower | null =>
+  towers.find((t) => tileEquals(t.tile, tile)) ?? null;
+
+export const createWorldStore = ({
+  grid,
+  towers,
+  dollyTile,
+  motion = DEFAULT_MOTION,
+  tickRate,
+  inputs = [],
+  restore,
+  pathAlgorithm = DEFAULT_PATH_ALGORITHM,
+  planPort,
+  asyncPlanning = planPort !== undefined,
+}: WorldStoreInit): WorldStore => {
+  let state: WorldState = {
+    grid,
+    towers: restore ? restore.towers : createTowers(towers),
+    carrying: restore?.carrying ?? null,
+    queue: restore?.queue ?? [],
+    macro: null,
+    history: EMPTY_HISTORY,
+    path: [],
+    pathAlgorithm,
+    planning: null,
+    dolly: makeDolly(grid, dollyTile, false),
+  };
+
+  const baseEdges: readonly Edge[] = buildBaseEdges(grid);
+  const closed = buildClosedSet(grid); // blocked + void: nothing moves or drops there
+  const isClosed = (tile: Tile) => closed.has(toTileId(tile));
+  const costOf = buildCostFn(grid);
+
+  const listeners = new Set<() => void>();
+  const eventListeners = new Set<(e: WorldEvent) => void>();
+
+  // DONE guard (one DONE per run)
+  let doneEmitted = false;
+
+  // In-flight move (per tick; not part of the published snapshot)
+  let trajectory: Trajectory | null = null;
+  let moveTicks = 0;
+  let activeMove: MoveToCommand | null = null;
+
+  let currentTick = 0;
+
+  // Deltas of the SWAP macro in progress (becomes one history entry)
+  let recording: { command: Command; before: HistorySnapshot; deltas: WorldDelta[] } | null =
+    null;
+
+  // Input log (live and scripted alike) + cursor into the scripted inputs
+  const inputLog: ReplayInput[] = [];
+  let scriptIndex = 0;
+
+  const setState = (patch: Partial<WorldState>) => {
+    state = { ...state, ...patch };
+    for (const l of listeners) l();
+  };
+
+  const emit = (e: WorldEvent) => {
+    for (const l of eventListeners) l(e);
+  };
+
+  // --------------------------
+  // Derived graphs (one live graph per mode)
+  // LIFT / DROP patch the flipped tile's neighbourhood directly; any other towers
+  // change (instant undo) is diffed in full on the next read.
+  // The returned adjacency is mutated in place by later patches: plan with it, don't keep it.
+  // --------------------------
+  const graphs: Partial<Record<Mode, LiveAdjacency>> = {};
+  let graphTowers: WorldState["towers"] = state.towers;
+
+  const currentMode = (): Mode => (state.carrying ? "TRANSPORT" : "NORMAL");
+
+  const getAdjacency = (mode?: Mode): Adjacency => {
+    const m: Mode = mode ?? currentMode();
+
+    if (graphTowers !== state.towers) {
+      const towerSet = buildTowerSet(state.towers.map((t) => t.tile));
+      for (const g of Object.values(graphs)) g.setTowers(towerSet);
+      graphTowers = state.towers;
+    }
+
+    const hit = graphs[m];
+    if (hit) return hit.adj;
+
+    const towerSet = buildTowerSet(state.towers.map((t) => t.tile));
+    const live = createLiveAdjacency(m, grid, baseEdges, towerSet);
+    graphs[m] = live;
+    return live.adj;
+  };
+
+  // `before` = towers snapshot the LIFT / DROP was applied to; if the graphs were
+  // already behind it, leave them for the full diff in getAdjacency
+  const patchGraphs = (before: WorldState["towers"], tile: Tile, present: boolean) => {
+    if (graphTowers !== before) return;
+    const id = toTileId(tile);
+    for (const g of Object.values(graphs)) g.setTower(id, present);
+    graphTowers = state.towers;
+  };
+
+  // --------------------------
+  // Queue
+  // An active macro's steps run ahead of the queue; "head" is whichever is next.
+  // --------------------------
+  const isIdle = () =>
+    state.path.length < 2 && state.queue.length === 0 && state.macro === null;
+
+  const head = (): Command | undefined => {
+    const m = state.macro;
+    if (m) return m.steps[m.index];
+    return state.queue[0];
+  };
+
+  // Patch that consumes the head command
+  const advancePatch = (): Partial<WorldState> => {
+    const m = state.macro;
+    if (m) return { macro: { ...m, index: m.index + 1 } };
+    return { queue: state.queue.slice(1) };
+  };
+
+  const popHead = () => setState(advancePatch());
+
+  const pushHead = (cmd: PrimitiveCommand) => {
+    const m = state.macro;
+    if (m) {
+      const steps = [...m.steps.slice(0, m.index), cmd, ...m.steps.slice(m.index)];
+      setState({ macro: { ...m, steps } });
+      return;
+    }
+    setState({ queue: [cmd, ...state.queue] });
+  };
+
+  const dispatch = (commands: Command | readonly Command[]) => {
+    const cmds: readonly Command[] = Array.isArray(commands)
+      ? commands
+      : [commands as Command];
+    if (cmds.length === 0) return;
+
+    // New run from idle: re-arm DONE
+    if (isIdle()) {
+      doneEmitted = false;
+      emit({ type: "RUN_STARTED" });
+    }
+
+    inputLog.push({ tick: currentTick, type: "DISPATCH", commands: cmds });
+    setState({ queue: [...state.queue, ...cmds] });
+  };
+
+  // An in-flight move keeps its path; the next MOVE_TO plans with the new algorithm
+  const setPathAlgorithm = (algorithm: PathAlgorithm) => {
+    if (algorithm === state.pathAlgorithm) return;
+    inputLog.push({ tick: currentTick, type: "SET_PATH_ALGORITHM", algorithm });
+    setState({ pathAlgorithm: algorithm });
+  };
+
+  // --------------------------
+  // Path cache for inline planning (no plan port, replay, worker failure); with a
+  // port, the worker's cache answers the runner and the previews
+  // --------------------------
+  const pathCache = createPathCache();
+  let fingerprint: { towers: WorldState["towers"] | null; key: string } = { towers: null, key: "" };
+
+  const towersFingerprint = () => {
+    if (fingerprint.towers !== state.towers) {
+      const ids = state.towers.map((t) => toTileId(t.tile));
+      fingerprint = { towers: state.towers, key: obstacleFingerprint(ids) };
+    }
+    return fingerprint.key;
+  };
+
+  const planPath = (algorithm: PathAlgorithm, from: Tile, to: Tile, mode?: Mode): PlanResult => {
+    const m: Mode = mode ?? currentMode();
+    const key = `${towersFingerprint()}|${m}|${algorithm}|${toTileId(from)}|${toTileId(to)}`;
+
+    const hit = pathCache.get(key);
+    if (hit) return hit;
+
+    const result = findPath(algorithm, getAdjacency(m), from, to, costOf);
+    pathCache.set(key, result);
+    return result;
+  };
+
+  // --------------------------
+  // Plan jobs
+  // With a plan port the head MOVE_TO / SWAP waits in `planning` while the worker
+  // answers, and the runner blocks. The answer lands as a PLAN_READY input, so a
+  // replay (asyncPlanning, no port) holds the same command for the same ticks and
+  // then plans it inline: both arrive at the same outcome.
+  // --------------------------
+  type RunnerJob = Exclude<PlanJob, { kind: "TRACE" }>; // TRACE is view-only (explain panel)
+  let pendingJob: { key: string; job: RunnerJob } | null = null;
+  let readyJob: { key: string; outcome: PlanOutcome } | null = null; // latest PLAN_READY
+
+  const runJobInline = (job: RunnerJob): PlanOutcome => {
+    if (job.kind === "PATH") {
+      return { kind: "PATH", result: planPath(job.algorithm, job.from, job.to, job.mode) };
+    }
+
+    const steps = expandSwap({
+      grid,
+      swapStart: job.swapStart,
+      aOrigin: job.aOrigin,
+      bOrigin: job.bOrigin,
+      adjTransport: getAdjacency("TRANSPORT"),
+      towerSet: buildTowerSet(state.towers.map((t) => t.tile)),
+      algorithm: job.algorithm,
+      costOf,
+    });
+    return { kind: "SWAP", steps };
+  };
+
+  // The pending job's answer: from the port (live) or planned here (replay, worker failure)
+  const planReady = (outcome?: PlanOutcome) => {
+    const p = pendingJob;
+    if (!p) return;
+    pendingJob = null;
+    readyJob = { key: p.key, outcome: outcome ?? runJobInline(p.job) };
+    setState({ planning: null });
+  };
+
+  const recordPlanReady = (key: string, outcome?: PlanOutcome) => {
+    if (pendingJob?.key !== key) return; // superseded meanwhile
+    inputLog.push({ tick: currentTick, type: "PLAN_READY" });
+    planReady(outcome);
+  };
+
+  /** Outcome of `job`, or null while it is being planned (the runner must wait). */
+  const awaitJob = <J extends RunnerJob>(job: J): Extract<PlanOutcome, { kind: J["kind"] }> | null => {
+    type Out = Extract<PlanOutcome, { kind: J["kind"] }>;
+    if (!asyncPlanning) return runJobInline(job) as Out;
+
+    const key = planJobKey(job, towersFingerprint());
+    if (readyJob?.key === key) return readyJob.outcome as Out;
+    if (pendingJob?.key === key) return null;
+
+    // a different question (e.g. after a planner change) supersedes the one in flight
+    pendingJob = { key, job };
+    setState({ planning: { kind: job.kind, target: planJobTarget(job) } });
+
+    const towerIds = state.towers.map((t) => toTileId(t.tile));
+    planPort?.run(job, towerIds).then(
+      (outcome) => {
+        if (outcome) recordPlanReady(key, outcome);
+      },
+      () => recordPlanReady(key) // worker failed: answer it here
+    );
+    return null;
+  };
+
+  const awaitPath = (from: Tile, to: Tile): Path | null => {
+    const outcome = awaitJob({
+      kind: "PATH",
+      mode: currentMode(),
+      algorithm: state.pathAlgorithm,
+      from,
+      to,
+    });
+    return outcome && outcome.result.path;
+  };
+
+  // --------------------------
+  // History
+  // --------------------------
+  const snap = (): HistorySnapshot => ({
+    towers: state.towers,
+    carrying: state.carrying,
+    dollyTile: state.dolly.tile,
+  });
+
+  const flushRecording = () => {
+    const r = recording;
+    recording = null;
+    if (!r || r.deltas.length === 0) return;
+    setState({
+      history: pushEntry(state.history, { ...r, deltas: r.deltas, after: snap() }),
+    });
+  };
+
+  // Call AFTER the LIFT/DROP has been applied; `before` is the pre-apply snapshot
+  const recordDelta = (command: Command, delta: WorldDelta, before: HistorySnapshot) => {
+    const m = state.macro;
+    if (!m) {
+      setState({
+        history: pushEntry(state.history, { command, deltas: [delta], before, after: snap() }),
+      });
+      return;
+    }
+    // UNDO / REDO macros replay history; they must not record over it
+    if (m.kind === "SWAP" && recording) recording.deltas.push(delta);
+  };
+
+  const report = (command: Command, code: CommandResultCode, tile: Tile) => {
+    emit({ type: "COMMAND_RESULT", result: { code, command, tile, tick: currentTick } });
+  };
+
+  // Pop the head command with a rejection reason. A failed macro step aborts
+  // the whole macro: its remaining steps assume the failed one happened.
+  const reject = (command: Command, code: CommandResultCode, tile: Tile) => {
+    const m = state.macro;
+    if (m) {
+      setState({ macro: null });
+      report(command, code, tile);
+      if (m.kind === "SWAP") {
+        // keep what did happen undoable
+        flushRecording();
+        report(m.command, code, commandTile(m.command));
+      }
+      return;
+    }
+    popHead();
+    report(command, code, tile);
+  };
+
+  // LIFT/DROP away from the dolly: prepend a MOVE_TO (or reject if unreachable).
+  // Returns false while the route is still being planned.
+  const rewriteWithMove = (cmd: Command, target: Tile): boolean => {
+    const from = state.dolly.tile;
+    const nextPath = awaitPath(from, target);
+    if (!nextPath) return false;
+
+    if (nextPath.length < 2 && !tileEquals(from, target)) {
+      reject(cmd, "UNREACHABLE", target);
+      return true;
+    }
+
+    pushHead(CMD.moveTo(target));
+    return true;
+  };
+
+  // SWAP reached the head: expand against the world as it is NOW.
+  // Returns false while the expansion is still being planned.
+  const startSwap = (cmd: SwapCommand): boolean => {
+    const carried = state.carrying;
+    if (!carried) {
+      reject(cmd, "NOT_CARRYING", cmd.tile);
+      return true;
+    }
+
+    if (!towerAt(state.towers, cmd.tile)) {
+      reject(cmd, "NO_TOWER_AT_TARGET", cmd.tile);
+      return true;
+    }
+
+    const outcome = awaitJob({
+      kind: "SWAP",
+      algorithm: state.pathAlgorithm,
+      swapStart: state.dolly.tile,
+      aOrigin: carried.tile,
+      bOrigin: cmd.tile,
+    });
+    if (!outcome) return false;
+    const steps = [...outcome.steps];
+
+    // no reachable staging tiles around B
+    if (steps.length === 0) {
+      reject(cmd, "UNREACHABLE", cmd.tile);
+      return true;
+    }
+
+    recording = { command: cmd, before: snap(), deltas: [] };
+    setState({
+      queue: state.queue.slice(1),
+      macro: { kind: "SWAP", command: cmd, steps, index: 0 },
+    });
+    emit({ type: "MACRO_STARTED", kind: "SWAP", command: cmd, steps: steps.length });
+    return true;
+  };
+
+  /**
+   * Execute the head command.
+   * Returns false when the runner must wait (move started or queue empty).
+   */
+  const runOne = (): boolean => {
+    // macro finished (all steps consumed, nothing in flight)
+    const m = state.macro;
+    if (m && m.index >= m.steps.length) {
+      setState({ macro: null });
+      if (m.kind === "SWAP") {
+        flushRecording();
+        report(m.command, "OK", commandTile(m.command));
+      } else {
+        finishHistoryMacro(m.kind, "PLAN");
+      }
+      return true;
+    }
+
+    const current = head();
+
+    if (!current) {
+      if (!doneEmitted) {
+        doneEmitted = true;
+        emit({ type: "DONE" });
+      }
+      return false;
+    }
+
+    const at = state.dolly.tile;
+
+    if (current.type === "SWAP") return startSwap(current);
+
+    if (current.type === "MOVE_TO") {
+      const to = current.to;
+
+      if (isClosed(to)) {
+        reject(current, "TILE_CLOSED", to);
+        return true;
+      }
+
+      if (tileEquals(at, to)) {
+        popHead();
+        report(current, "OK", to);
+        return true;
+      }
+
+      const nextPath = awaitPath(at, to);
+      if (!nextPath) return false;
+
+      if (nextPath.length < 2) {
+        reject(current, "UNREACHABLE", to);
+        return true;
+      }
+
+      // first movement in a run re-arms DONE
+      doneEmitted = false;
+
+      trajectory = buildTrajectory(nextPath, grid, state.carrying !== null, motion);
+      moveTicks = 0;
+      activeMove = current;
+
+      setState({
+        ...advancePatch(),
+        path: nextPath,
+        dolly: makeDolly(grid, at, true),
+      });
+      emit({ type: "MOVE_STARTED", path: nextPath });
+      return false;
+    }
+
+    // LIFT/DROP preconditions are checked BEFORE travelling, so a doomed
+    // command is rejected with its real reason instead of after a wasted trip.
+    if (current.type === "LIFT") {
+      const target = current.tile;
+
+      if (state.carrying) {
+        reject(current, "ALREADY_CARRYING", target);
+        return true;
+      }
+
+      const tower = towerAt(state.towers, target);
+      if (!tower) {
+        reject(current, "NO_TOWER_AT_TARGET", target);
+        return true;
+      }
+
+      if (!tileEquals(at, target)) return rewriteWithMove(current, target);
+
+      const before = snap();
+      setState({
+        ...advancePatch(),
+        towers: state.towers.filter((t) => t !== tower),
+        carrying: tower,
+      });
+      patchGraphs(before.towers, target, false);
+      recordDelta(current, { type: "LIFT", towerId: tower.id, tile: target }, before);
+      emit({ type: "LIFTED", tower });
+      report(current, "OK", target);
+      return true;
+    }
+
+    if (current.type === "DROP") {
+      const target = current.tile;
+
+      const carried = state.carrying;
+      if (!carried) {
+        reject(current, "NOT_CARRYING", target);
+        return true;
+      }
+
+      if (towerAt(state.towers, target)) {
+        reject(current, "TILE_OCCUPIED", target);
+        return true;
+      }
+
+      if (isClosed(target)) {
+        reject(current, "TILE_CLOSED", target);
+        return true;
+      }
+
+      if (!tileEquals(at, target)) return rewriteWithMove(current, target);
+
+      const placed: Tower = { ...carried, tile: target };
+      const before = snap();
+      setState({
+        ...advancePatch(),
+        towers: [...state.towers, placed],
+        carrying: null,
+      });
+      patchGraphs(before.towers, target, true);
+      recordDelta(current, { type: "DROP", towerId: placed.id, tile: target }, before);
+      emit({ type: "DROPPED", tower: placed });
+      report(current, "OK", target);
+      return true;
+    }
+
+    // Fallback: unknown / unsupported cmd => reject it
+    const unknown = current as Command;
+    reject(unknown, "UNSUPPORTED", commandTile(unknown));
+    return true;
+  };
+
+  // UNDO moves the latest past entry to future; REDO the reverse
+  const finishHistoryMacro = (kind: "UNDO" | "REDO", mode: UndoMode) => {
+    const h = state.history;
+    const entry = kind === "UNDO" ? h.past[h.past.length - 1] : h.future[h.future.length - 1];
+    if (!entry) return;
+    setState({ history: kind === "UNDO" ? moveToFuture(h) : moveToPast(h) });
+    emit({ type: "HISTORY_APPLIED", kind, mode, entry });
+  };
+
+  const applyHistory = (kind: "UNDO" | "REDO", mode: UndoMode): boolean => {
+    if (!isIdle()) return false;
+
+    const h = state.history;
+    const entry = kind === "UNDO" ? h.past[h.past.length - 1] : h.future[h.future.length - 1];
+    if (!entry) return false;
+
+    if (mode === "INSTANT") {
+      const target = kind === "UNDO" ? entry.before : entry.after;
+      setState({
+        towers: target.towers,
+        carrying: target.carrying,
+        dolly: makeDolly(grid, target.dollyTile, false),
+      });
+      finishHistoryMacro(kind, mode);
+      return true;
+    }
+
+    const steps = kind === "UNDO" ? inversePlan(entry) : replayPlan(entry);
+    doneEmitted = false;
+    emit({ type: "RUN_STARTED" });
+    setState({ macro: { kind, command: entry.command, steps, index: 0 } });
+    emit({ type: "MACRO_STARTED", kind, command: entry.command, steps: steps.length });
+    return true;
+  };
+
+  const runHistory = (kind: "UNDO" | "REDO", mode: UndoMode): boolean => {
+    const ok = applyHistory(kind, mode);
+    if (ok) inputLog.push({ tick: currentTick, type: kind, mode });
+    return ok;
+  };
+
+  // Scripted inputs stamped `tick` arrived after that tick ran: apply them
+  // at the start of the next one, exactly where a live input would land.
+  const applyScript = (tick: number) => {
+    while (scriptIndex < inputs.length && inputs[scriptIndex].tick <= tick) {
+      const input = inputs[scriptIndex++];
+      if (input.type === "DISPATCH") dispatch(input.commands);
+      else if (input.type === "SET_PATH_ALGORITHM") setPathAlgorithm(input.algorithm);
+      else if (input.type === "PLAN_READY") {
+        inputLog.push(input);
+        planReady();
+      }
+      else runHistory(input.type, input.mode);
+    }
+  };
+
+  const drain = () => {
+    while (runOne()) {
+      // keep draining until blocked on a move or empty
+    }
+  };
+
+  const arrive = () => {
+    const tile = state.path[state.path.length - 1];
+    const done = activeMove;
+    trajectory = null;
+    moveTicks = 0;
+    activeMove = null;
+    setState({ path: [], dolly: makeDolly(grid, tile, false) });
+    if (done) report(done, "OK", tile);
+  };
+
+  // One fixed tick: advance the move, then let the runner react in the same tick.
+  const onTick = (tick: number, dt: number) => {
+    applyScript(tick - 1);
+    currentTick = tick;
+    if (trajectory) {
+      moveTicks += 1;
+      if (moveTicks * dt < trajectory.duration) return;
+      arrive();
+    }
+    drain();
+  };
+
+  const timeline = createTimeline(onTick, { tickRate });
+
+  const sampleDolly = (): DollySample => {
+    if (!trajectory) {
+      return { position: state.dolly.position, distance: 0, speed: 0, etaSeconds: null };
+    }
+
+    const t = (moveTicks + timeline.getAlpha()) * timeline.dt;
+    const sample = trajectory.sampleAt(t);
+    return {
+      ...sample,
+      etaSeconds: Math.max(0, trajectory.duration - t),
+    };
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    onEvent: (listener) => {
+      eventListeners.add(listener);
+      return () => eventListeners.delete(listener);
+    },
+    dispatch,
+    timeline,
+    step: () => timeline.stepTicks(1),
+    sampleDolly,
+    undo: (mode) => runHistory("UNDO", mode),
+    redo: (mode) => runHistory("REDO", mode),
+    setPathAlgorithm,
+    getAdjacency,
+    planPath,
+    getPathCacheStats: pathCache.stats,
+    exportLog: () => ({
+      format: REPLAY_LOG_FORMAT,
+      version: REPLAY_LOG_VERSION,
+      init: {
+        grid,
+        towers,
+        dollyTile,
+        motion,
+        tickRate: timeline.tickRate,
+        pathAlgorithm,
+        ...(asyncPlanning ? { asyncPlanning } : {}),
+        ...(restore ? { restore } : {}),
+      },
+      inputs: [...inputLog],
+      endTick: currentTick,
+    }),
+    dispose: () => {
+      pendingJob = null;
+      planPort?.close();
+    },
+  };
+};
+
+/**
+ * Fresh kernel that re-runs a log, paused at `atTick`.
+ * Seeking backwards means building a new one (the kernel cannot rewind).
+ */
+export const createReplayStore = (log: ReplayLog, atTick: number = 0): WorldStore => {
+  const store = createWorldStore({ ...log.init, inputs: log.inputs });
+  store.timeline.pause();
+  store.timeline.stepTicks(atTick);
+  return store;
+};